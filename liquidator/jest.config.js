@@ -0,0 +1,13 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  // imports are resolved from src like the baseUrl of tsconfig.json
+  moduleDirectories: ['node_modules', 'src'],
+  globals: {
+    'ts-jest': {
+      isolatedModules: true,
+    },
+  },
+};
@@ -0,0 +1,9 @@
+const { webcrypto } = require('crypto');
+
+// config.ts reads the deployment the program ID is taken from when it is imported
+process.env.APP = 'production';
+
+// web3.js generates keys with the web crypto API, which the node environment of jest lacks
+if (!global.crypto) {
+  global.crypto = webcrypto;
+}
@@ -0,0 +1,128 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { formatBacktestReport, replaySnapshots } from 'libs/backtest';
+import { PaperWallet, parsePaperWallet } from 'libs/paperWallet';
+import { getTxCostUSD } from 'libs/planLiquidation';
+import { createConnection } from 'libs/rateLimiter';
+import {
+  readSnapshots,
+  snapshotFromDumps,
+  takeSnapshot,
+  writeSnapshot,
+} from 'libs/snapshot';
+import { getSwapSlippageBps } from 'libs/swap';
+import { wait } from 'libs/utils';
+import { find } from 'underscore';
+import { getMarkets } from './config';
+
+dotenv.config();
+
+const SLOT_MS = 400;
+
+const USAGE = `usage:
+  npm run backtest -- record <dir> [count]
+  npm run backtest -- from-dump <dir> <market> <obligations.json> <reserves.json> [slot]
+  npm run backtest -- replay <dir> [report.json]`;
+
+// Snapshots every market once per new slot, count times or until stopped
+async function record(dir: string, count?: number) {
+  const rpcEndpoint = process.env.RPC_ENDPOINT;
+  if (!rpcEndpoint) {
+    throw new Error(
+      'Pls provide an private RPC endpoint in docker-compose.yaml',
+    );
+  }
+  const connection = createConnection(rpcEndpoint, 'confirmed');
+  const markets = await getMarkets();
+  const lastSlots = new Map<string, number>();
+
+  let recorded = 0;
+  while (count === undefined || recorded < count) {
+    let newSlot = false;
+    for (const market of markets) {
+      const snapshot = await takeSnapshot(connection, market);
+      if (lastSlots.get(market.address) !== snapshot.slot) {
+        lastSlots.set(market.address, snapshot.slot);
+        newSlot = true;
+        console.log(
+          `recorded ${snapshot.obligations.length} obligations of market ${
+            market.address
+          } at slot ${snapshot.slot} to ${writeSnapshot(dir, snapshot)}`,
+        );
+      }
+    }
+    if (newSlot) {
+      recorded += 1;
+    }
+    // requests are paced by the rate limiter, this only avoids polling within a slot
+    await wait(SLOT_MS);
+  }
+}
+
+async function fromDump(
+  dir: string,
+  marketAddress: string,
+  obligationsFile: string,
+  reservesFile: string,
+  slot?: number,
+) {
+  const market = find(
+    await getMarkets(),
+    (config) => config.address === marketAddress,
+  );
+  if (!market) {
+    throw new Error(`market ${marketAddress} not found`);
+  }
+  const snapshot = snapshotFromDumps(
+    market,
+    JSON.parse(fs.readFileSync(obligationsFile, 'utf8')),
+    JSON.parse(fs.readFileSync(reservesFile, 'utf8')),
+    slot,
+  );
+  console.log(
+    `recorded ${snapshot.obligations.length} obligations of market ${
+      market.address
+    } at slot ${snapshot.slot} to ${writeSnapshot(dir, snapshot)}`,
+  );
+}
+
+function replay(dir: string, reportFile?: string) {
+  const report = replaySnapshots(readSnapshots(dir), {
+    slippageBps: getSwapSlippageBps(),
+    txCostUSD: getTxCostUSD(),
+    paperWallet: process.env.PAPER_WALLET
+      ? new PaperWallet(parsePaperWallet(process.env.PAPER_WALLET))
+      : undefined,
+  });
+  console.log(formatBacktestReport(report));
+  if (reportFile) {
+    fs.writeFileSync(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`report written to ${reportFile}`);
+  }
+}
+
+async function backtest(args: string[]) {
+  const [command, dir, ...rest] = args;
+  if (command === 'record' && dir) {
+    return record(dir, rest[0] ? Number(rest[0]) : undefined);
+  }
+  if (command === 'from-dump' && dir && rest.length >= 3) {
+    return fromDump(
+      dir,
+      rest[0],
+      rest[1],
+      rest[2],
+      rest[3] ? Number(rest[3]) : undefined,
+    );
+  }
+  if (command === 'replay' && dir) {
+    return replay(dir, rest[0]);
+  }
+  console.error(USAGE);
+  process.exit(1);
+}
+
+backtest(process.argv.slice(2)).catch((err) => {
+  console.error('backtest failed: ', err);
+  process.exit(1);
+});
@@ -1,9 +1,12 @@
 import got from 'got';
 import { MarketConfig } from 'global';
 import dotenv from 'dotenv';
+import { getLogger } from 'libs/logger';
 
 dotenv.config();
 
+const logger = getLogger('config');
+
 export const OBLIGATION_LEN = 1300;
 export const RESERVE_LEN = 619;
 export const LENDING_MARKET_LEN = 290;
@@ -48,7 +51,7 @@ export async function getMarkets(): Promise<MarketConfig[]> {
       const data = resp.body as MarketConfig[];
       return data;
     } catch (error) {
-      console.error('error fetching /v1/markets/configs ', error);
+      logger.error('failed to fetch market configs', { url: marketUrl, attempt: attemptCount, error });
     }
   }
 
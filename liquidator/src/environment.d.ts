@@ -2,7 +2,6 @@
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
-      THROTTLE: number,
       WALLET_PATH: string,
       APP: string,
       MARKET: string,
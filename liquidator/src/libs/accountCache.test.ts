@@ -0,0 +1,178 @@
+import {
+  AccountInfo,
+  Context,
+  GetProgramAccountsFilter,
+  KeyedAccountInfo,
+  PublicKey,
+} from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { MarketConfig } from 'global';
+import { MarketAccountCache, SubscriptionSource } from './accountCache';
+import { encodeObligationAccount, encodeReserveAccount, FakeConnection } from './fakeConnection';
+import { TokenOracleData } from './oracle';
+import { getProgramIdForCurrentDeployment } from './utils';
+
+// Delivers account updates to the cache by hand instead of over a websocket
+class FakeSubscriptionSource implements SubscriptionSource {
+  listeners = new Map<number, {
+    callback: (keyedAccountInfo: KeyedAccountInfo, context: Context) => void;
+    filters: GetProgramAccountsFilter[];
+  }>();
+
+  private nextId = 0;
+
+  onProgramAccountChange(
+    programId: PublicKey,
+    callback: (keyedAccountInfo: KeyedAccountInfo, context: Context) => void,
+    commitment?: string,
+    filters: GetProgramAccountsFilter[] = [],
+  ) {
+    this.nextId += 1;
+    this.listeners.set(this.nextId, { callback, filters });
+    return this.nextId;
+  }
+
+  async removeProgramAccountChangeListener(id: number) {
+    this.listeners.delete(id);
+  }
+
+  // to the listeners whose data size filter matches the account
+  emit(accountId: PublicKey, data: Buffer, slot: number) {
+    const accountInfo: AccountInfo<Buffer> = {
+      executable: false,
+      lamports: 0,
+      owner: new PublicKey(getProgramIdForCurrentDeployment()),
+      rentEpoch: 0,
+      data,
+    };
+    this.listeners.forEach(({ callback, filters }) => {
+      if (filters.every((filter) => !('dataSize' in filter) || filter.dataSize === data.length)) {
+        callback({ accountId, accountInfo }, { slot });
+      }
+    });
+  }
+}
+
+const LENDING_MARKET = new PublicKey(1);
+const SOL = new PublicKey(2);
+const USDC = new PublicKey(3);
+const OWNER = new PublicKey(4);
+
+const market = { address: LENDING_MARKET.toBase58(), reserves: [] } as unknown as MarketConfig;
+
+const reserveData = (available = 1000) => encodeReserveAccount({
+  lendingMarket: LENDING_MARKET,
+  liquidityAvailableAmount: new BN(available),
+});
+
+// an obligation borrowing USDC against SOL, or only depositing SOL
+const obligationData = (borrowed = 100) => encodeObligationAccount(
+  LENDING_MARKET,
+  OWNER,
+  [{ depositReserve: SOL, depositedAmount: new BN(1000) }],
+  borrowed ? [{ borrowReserve: USDC, borrowedAmountWads: new BN(borrowed) }] : [],
+);
+
+const oracle = (reserve: PublicKey, price: number, smoothedPrice = price) => ({
+  reserveAddress: reserve.toBase58(),
+  price: new BigNumber(price),
+  smoothedPrice: new BigNumber(smoothedPrice),
+} as TokenOracleData);
+
+const dirtyKeys = (cache: MarketAccountCache) => cache.takeDirtyObligations()
+  .map((obligation) => obligation.pubkey.toBase58())
+  .sort();
+
+describe('MarketAccountCache', () => {
+  const borrower = new PublicKey(10);
+  const depositor = new PublicKey(11);
+  let connection: FakeConnection;
+  let source: FakeSubscriptionSource;
+  let cache: MarketAccountCache;
+
+  beforeEach(async () => {
+    connection = new FakeConnection(100);
+    [SOL, USDC].forEach((reserve) => connection.setAccount(reserve, { data: reserveData() }));
+    connection.setAccount(borrower, { data: obligationData() });
+    connection.setAccount(depositor, { data: obligationData(0) });
+    source = new FakeSubscriptionSource();
+    cache = new MarketAccountCache(connection, market, source);
+    await cache.start();
+  });
+
+  it('seeds the obligations and reserves of the market, all of them dirty', () => {
+    expect(cache.getReserves().map((reserve) => reserve.pubkey.toBase58()).sort())
+      .toEqual([SOL.toBase58(), USDC.toBase58()].sort());
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58(), depositor.toBase58()].sort());
+    expect(dirtyKeys(cache)).toEqual([]);
+  });
+
+  it('marks obligations updated through the subscription dirty and drops older updates', () => {
+    cache.takeDirtyObligations();
+
+    source.emit(borrower, obligationData(200), 101);
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58()]);
+    expect(cache.obligations.get(borrower.toBase58())!.info.borrows[0].borrowedAmountWads.toNumber()).toBe(200);
+
+    source.emit(borrower, obligationData(300), 99);
+    expect(dirtyKeys(cache)).toEqual([]);
+    expect(cache.obligations.get(borrower.toBase58())!.info.borrows[0].borrowedAmountWads.toNumber()).toBe(200);
+  });
+
+  it('forgets closed obligations', () => {
+    cache.updateObligation(borrower, { ...connection.accounts.get(borrower.toBase58())!, data: Buffer.alloc(0) }, 101);
+
+    expect(cache.obligations.has(borrower.toBase58())).toBe(false);
+    expect(dirtyKeys(cache)).toEqual([depositor.toBase58()]);
+    cache.markObligationDirty(borrower.toBase58());
+    expect(dirtyKeys(cache)).toEqual([]);
+
+    // nor is it handed out again for changes of its reserves
+    source.emit(USDC, reserveData(2000), 101);
+    source.emit(SOL, reserveData(2000), 101);
+    expect(dirtyKeys(cache)).toEqual([depositor.toBase58()]);
+    [SOL, USDC].forEach((reserve) => {
+      expect(cache.reserveObligations.get(reserve.toBase58())!.has(borrower.toBase58())).toBe(false);
+    });
+  });
+
+  it('marks the obligations of an updated reserve dirty', () => {
+    cache.takeDirtyObligations();
+
+    source.emit(USDC, reserveData(2000), 101);
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58()]);
+
+    source.emit(SOL, reserveData(2000), 101);
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58(), depositor.toBase58()].sort());
+  });
+
+  it('marks the obligations of a reserve dirty when its spot or smoothed price moves', () => {
+    cache.updatePrices([oracle(SOL, 100), oracle(USDC, 1)]);
+    cache.takeDirtyObligations();
+
+    cache.updatePrices([oracle(SOL, 100), oracle(USDC, 1)]);
+    expect(dirtyKeys(cache)).toEqual([]);
+
+    cache.updatePrices([oracle(SOL, 100), oracle(USDC, 1, 1.01)]);
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58()]);
+
+    cache.updatePrices([oracle(SOL, 99), oracle(USDC, 1, 1.01)]);
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58(), depositor.toBase58()].sort());
+  });
+
+  it('hands out obligations marked dirty again by the caller', () => {
+    cache.takeDirtyObligations();
+
+    cache.markObligationDirty(borrower.toBase58());
+    cache.markObligationDirty(new PublicKey(12).toBase58());
+    expect(dirtyKeys(cache)).toEqual([borrower.toBase58()]);
+    expect(dirtyKeys(cache)).toEqual([]);
+  });
+
+  it('unsubscribes when stopped', async () => {
+    expect(source.listeners.size).toBe(2);
+    await cache.stop();
+    expect(source.listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  AccountInfo,
+  Commitment,
+  Context,
+  GetProgramAccountsFilter,
+  KeyedAccountInfo,
+  PublicKey,
+} from '@solana/web3.js';
+import {
+  OBLIGATION_SIZE,
+  parseObligation,
+  parseReserve,
+  RESERVE_SIZE,
+} from '@solendprotocol/solend-sdk';
+import { MarketConfig } from 'global';
+import { LiquidatorConnection } from './connection';
+import { TokenOracleData } from './oracle';
+import { getProgramIdForCurrentDeployment } from './utils';
+
+// The subset of Connection the cache subscribes through, so that it can be fed by a local
+// fake subscription source instead of a websocket.
+export interface SubscriptionSource {
+  onProgramAccountChange(
+    programId: PublicKey,
+    callback: (keyedAccountInfo: KeyedAccountInfo, context: Context) => void,
+    commitment?: Commitment,
+    filters?: GetProgramAccountsFilter[],
+  ): number;
+  removeProgramAccountChangeListener(subscriptionId: number): Promise<void>;
+}
+
+type CachedAccount = {
+  pubkey: PublicKey;
+  info: any;
+  // slot the account was last seen at, older updates are dropped
+  slot: number;
+};
+
+const marketFilters = (lendingMarketAddr: string, dataSize: number): GetProgramAccountsFilter[] => [
+  {
+    memcmp: {
+      offset: 10,
+      bytes: lendingMarketAddr,
+    },
+  },
+  {
+    dataSize,
+  },
+];
+
+// Keeps a market's obligations and reserves in memory. The cache is seeded once with
+// getProgramAccounts and kept current through program account subscriptions, and tracks which
+// obligations changed, directly or through their reserves and prices, since they were last
+// handed out for evaluation.
+export class MarketAccountCache {
+  market: MarketConfig;
+
+  obligations = new Map<string, CachedAccount>();
+
+  reserves = new Map<string, CachedAccount>();
+
+  // reserve address => obligations holding a deposit or borrow in it
+  reserveObligations = new Map<string, Set<string>>();
+
+  dirtyObligations = new Set<string>();
+
+  prices = new Map<string, string>();
+
+  subscriptionIds: number[] = [];
+
+  connection: LiquidatorConnection;
+
+  source: SubscriptionSource;
+
+  constructor(
+    connection: LiquidatorConnection,
+    market: MarketConfig,
+    source: SubscriptionSource = connection,
+  ) {
+    this.connection = connection;
+    this.market = market;
+    this.source = source;
+  }
+
+  async start() {
+    const programId = new PublicKey(getProgramIdForCurrentDeployment());
+    const commitment = this.connection.commitment;
+
+    // subscribe before seeding so no update is lost in between, slot ordering takes care of
+    // updates older than the seed
+    this.subscriptionIds.push(
+      this.source.onProgramAccountChange(
+        programId,
+        ({ accountId, accountInfo }, { slot }) => this.updateObligation(accountId, accountInfo, slot),
+        commitment,
+        marketFilters(this.market.address, OBLIGATION_SIZE),
+      ),
+      this.source.onProgramAccountChange(
+        programId,
+        ({ accountId, accountInfo }, { slot }) => this.updateReserve(accountId, accountInfo, slot),
+        commitment,
+        marketFilters(this.market.address, RESERVE_SIZE),
+      ),
+    );
+
+    const [obligations, reserves] = await Promise.all([
+      this.connection.getProgramAccounts(programId, {
+        commitment,
+        filters: marketFilters(this.market.address, OBLIGATION_SIZE),
+        encoding: 'base64',
+        withContext: true,
+      }),
+      this.connection.getProgramAccounts(programId, {
+        commitment,
+        filters: marketFilters(this.market.address, RESERVE_SIZE),
+        encoding: 'base64',
+        withContext: true,
+      }),
+    ]);
+    reserves.value.forEach(({ pubkey, account }) => this.updateReserve(pubkey, account, reserves.context.slot));
+    obligations.value.forEach(({ pubkey, account }) => this.updateObligation(pubkey, account, obligations.context.slot));
+  }
+
+  async stop() {
+    await Promise.all(
+      this.subscriptionIds.map((id) => this.source.removeProgramAccountChangeListener(id)),
+    );
+    this.subscriptionIds = [];
+  }
+
+  updateObligation(pubkey: PublicKey, accountInfo: AccountInfo<Buffer>, slot: number) {
+    const key = pubkey.toString();
+    const cached = this.obligations.get(key);
+    if (cached && cached.slot > slot) {
+      return;
+    }
+
+    // closed, e.g. by its owner once repaid and withdrawn
+    if (!accountInfo.data.length) {
+      this.obligations.delete(key);
+      this.reserveObligations.forEach((obligations) => obligations.delete(key));
+      this.dirtyObligations.delete(key);
+      return;
+    }
+
+    const obligation = parseObligation(pubkey, accountInfo);
+    if (!obligation) {
+      return;
+    }
+    this.obligations.set(key, { pubkey, info: obligation.info, slot });
+
+    const reserveAddresses = [
+      ...obligation.info.deposits.map((deposit) => deposit.depositReserve.toString()),
+      ...obligation.info.borrows.map((borrow) => borrow.borrowReserve.toString()),
+    ];
+    this.reserveObligations.forEach((obligations) => obligations.delete(key));
+    reserveAddresses.forEach((reserveAddress) => {
+      if (!this.reserveObligations.has(reserveAddress)) {
+        this.reserveObligations.set(reserveAddress, new Set());
+      }
+      this.reserveObligations.get(reserveAddress)!.add(key);
+    });
+    this.dirtyObligations.add(key);
+  }
+
+  updateReserve(pubkey: PublicKey, accountInfo: AccountInfo<Buffer>, slot: number) {
+    const key = pubkey.toString();
+    const cached = this.reserves.get(key);
+    if (cached && cached.slot > slot) {
+      return;
+    }
+
+    const reserve = parseReserve(pubkey, accountInfo);
+    if (!reserve) {
+      return;
+    }
+    this.reserves.set(key, { pubkey, info: reserve.info, slot });
+    this.markReserveDirty(key);
+  }
+
+  // Marks the obligations of every reserve whose spot or smoothed price moved since the last
+  // call, as the smoothed price bounds the allowed and borrowed values
+  updatePrices(tokensOracle: TokenOracleData[]) {
+    tokensOracle.forEach(({ reserveAddress, price, smoothedPrice }) => {
+      const previous = this.prices.get(reserveAddress);
+      const current = `${price.toString()}/${smoothedPrice.toString()}`;
+      if (previous !== current) {
+        this.prices.set(reserveAddress, current);
+        this.markReserveDirty(reserveAddress);
+      }
+    });
+  }
+
+  markReserveDirty(reserveAddress: string) {
+    this.reserveObligations.get(reserveAddress)?.forEach((key) => this.dirtyObligations.add(key));
+  }
+
+  // Hands the obligation out again on the next call of takeDirtyObligations, e.g. when it was
+  // left unhealthy and changes of the wallet rather than of its accounts may let it be liquidated
+  markObligationDirty(pubkey: string) {
+    if (this.obligations.has(pubkey)) {
+      this.dirtyObligations.add(pubkey);
+    }
+  }
+
+  getReserves() {
+    return [...this.reserves.values()].map(({ pubkey, info }) => ({ pubkey, info }));
+  }
+
+  // Returns the obligations that changed since the last call, in the shape of getObligations.
+  // Obligations that are still unhealthy once evaluated are marked dirty again by the caller.
+  takeDirtyObligations() {
+    const obligations = [...this.dirtyObligations]
+      .map((key) => this.obligations.get(key))
+      .filter((cached): cached is CachedAccount => !!cached)
+      .map(({ pubkey, info }) => ({ pubkey, info }));
+    this.dirtyObligations.clear();
+    return obligations;
+  }
+}
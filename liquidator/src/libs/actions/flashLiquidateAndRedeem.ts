@@ -0,0 +1,191 @@
+import {
+  Account,
+  AddressLookupTableAccount,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { Reserve } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import { MarketConfig } from 'global';
+import { getComputeBudgetInstructions } from 'libs/computeBudget';
+import { LiquidatorConnection } from 'libs/connection';
+import { LiquidationAmount } from 'libs/liquidationAmount';
+import { getLogger } from 'libs/logger';
+import { sendTransaction } from 'libs/sender';
+import {
+  checkSimulatedProfit,
+  getSimulationComputeBudgetInstructions,
+  getSimulationLogFields,
+  Preflight,
+  simulateInstructions,
+} from 'libs/simulation';
+import { getSwapSlippageBps, SwapProvider } from 'libs/swap';
+import { buildTransaction } from 'libs/transaction';
+import { WAD } from 'libs/utils';
+import { flashBorrowReserveLiquidityInstruction } from 'models/instructions/flashBorrowReserveLiquidity';
+import { flashRepayReserveLiquidityInstruction } from 'models/instructions/flashRepayReserveLiquidity';
+import { getLiquidateAndRedeemInstructions, getLiquidationAccounts } from './liquidateAndRedeem';
+
+const logger = getLogger('flashLiquidateAndRedeem');
+
+export type FlashLoanMode = 'off' | 'fallback' | 'always';
+
+// FLASH_LOAN=fallback only flash borrows when the wallet lacks the repay token,
+// FLASH_LOAN=always funds every liquidation with a flash loan.
+export function getFlashLoanMode(): FlashLoanMode {
+  const mode = process.env.FLASH_LOAN || 'off';
+  if (!['off', 'fallback', 'always'].includes(mode)) {
+    throw new Error(`Unrecognized flash loan mode: ${mode}. Must be off, fallback or always`);
+  }
+  return mode as FlashLoanMode;
+}
+
+// Reserve::calculate_flash_loan_fees, rounded up
+export const getFlashLoanFee = (reserve: Reserve, amount: BigNumber) => amount
+  .multipliedBy(new BigNumber(reserve.config.fees.flashLoanFeeWad.toString()))
+  .dividedBy(WAD)
+  .integerValue(BigNumber.ROUND_CEIL);
+
+// Liquidates without standing inventory: flash borrows the repay token from its reserve,
+// liquidates and redeems, swaps the redeemed collateral back into the repay token and repays
+// the flash loan, all in one atomic transaction.
+export const flashLiquidateAndRedeem = async (
+  connection: LiquidatorConnection,
+  payer: Account,
+  liquidation: LiquidationAmount,
+  repayTokenSymbol: string,
+  withdrawTokenSymbol: string,
+  lendingMarket: MarketConfig,
+  obligation: any,
+  repayReserveState: Reserve,
+  swapProvider: SwapProvider,
+  // cap on the priority fee, in lamports
+  maxPriorityFeeLamports?: BigNumber,
+  // the market's lookup table, used alongside the swap's
+  lookupTable?: AddressLookupTableAccount,
+  // aborts before sending when the simulated profit is too low
+  preflight?: Preflight,
+) => {
+  const repayAmount = liquidation.repayAmount.toFixed(0);
+  const liquidationInstructions = await getLiquidateAndRedeemInstructions(
+    connection,
+    payer,
+    repayAmount,
+    repayTokenSymbol,
+    withdrawTokenSymbol,
+    lendingMarket,
+    obligation,
+    true,
+  );
+  const {
+    setupIxs,
+    liquidateIx,
+    repayAccount,
+    repayReserve,
+    repayTokenInfo,
+    withdrawTokenInfo,
+  } = liquidationInstructions;
+
+  const owed = liquidation.repayAmount.plus(getFlashLoanFee(repayReserveState, liquidation.repayAmount));
+
+  let swapIxs: TransactionInstruction[] = [];
+  let addressLookupTableAddresses: string[] = [];
+  if (repayTokenSymbol !== withdrawTokenSymbol) {
+    const quote = await swapProvider.quote({
+      inputMint: withdrawTokenInfo.mintAddress,
+      outputMint: repayTokenInfo.mintAddress,
+      amount: liquidation.withdrawLiquidityAmount.toFixed(0),
+      slippageBps: getSwapSlippageBps(),
+    });
+    if (owed.isGreaterThan(quote.minOutAmount)) {
+      throw new Error(`flash loan not repayable: swapping ${withdrawTokenSymbol} returns at least ${quote.minOutAmount} ${repayTokenSymbol} but ${owed.toFixed(0)} is owed`);
+    }
+    ({ instructions: swapIxs, addressLookupTableAddresses } = await swapProvider.swapInstructions(
+      payer.publicKey,
+      quote,
+    ));
+  } else if (owed.isGreaterThan(liquidation.withdrawLiquidityAmount)) {
+    throw new Error(`flash loan not repayable: ${liquidation.withdrawLiquidityAmount.toFixed(0)} ${withdrawTokenSymbol} redeemed but ${owed.toFixed(0)} is owed`);
+  }
+
+  // The flash repay refers to the flash borrow by its index in the transaction, which depends
+  // on the number of compute budget instructions prepended
+  const getInstructions = (computeBudgetIxCount: number) => {
+    const borrowInstructionIndex = computeBudgetIxCount + setupIxs.length;
+    return [
+      ...setupIxs,
+      flashBorrowReserveLiquidityInstruction(
+        repayAmount,
+        new PublicKey(repayReserve.liquidityAddress),
+        repayAccount,
+        new PublicKey(repayReserve.address),
+        new PublicKey(lendingMarket.address),
+        new PublicKey(lendingMarket.authorityAddress),
+      ),
+      liquidateIx,
+      ...swapIxs,
+      flashRepayReserveLiquidityInstruction(
+        repayAmount,
+        borrowInstructionIndex,
+        repayAccount,
+        new PublicKey(repayReserve.liquidityAddress),
+        new PublicKey(repayReserve.liquidityFeeReceiverAddress),
+        // we are our own host and get the host share of the fee back
+        repayAccount,
+        new PublicKey(repayReserve.address),
+        new PublicKey(lendingMarket.address),
+        payer.publicKey,
+      ),
+    ];
+  };
+
+  const lookupTables = (await Promise.all(
+    addressLookupTableAddresses.map(
+      (address) => connection.getAddressLookupTable(new PublicKey(address)),
+    ),
+  ))
+    .map((resp) => resp.value)
+    .filter((table): table is AddressLookupTableAccount => !!table);
+  if (lookupTable) {
+    lookupTables.push(lookupTable);
+  }
+
+  const ixs = getInstructions(getSimulationComputeBudgetInstructions().length);
+  const simulation = await simulateInstructions(
+    connection,
+    payer.publicKey,
+    ixs,
+    lookupTables,
+    preflight
+      ? getLiquidationAccounts(
+        liquidationInstructions,
+        repayTokenSymbol,
+        withdrawTokenSymbol,
+        preflight,
+      )
+      : [],
+  );
+  if (preflight) {
+    logger.info('simulated liquidation', getSimulationLogFields(simulation));
+    checkSimulatedProfit(simulation, preflight);
+  }
+
+  const computeBudgetIxs = await getComputeBudgetInstructions(
+    connection,
+    ixs,
+    simulation.unitsConsumed,
+    maxPriorityFeeLamports,
+  );
+
+  const {
+    transaction, version, size, lastValidBlockHeight,
+  } = await buildTransaction(
+    connection,
+    payer,
+    [...computeBudgetIxs, ...getInstructions(computeBudgetIxs.length)],
+    lookupTables,
+  );
+  logger.info('sending liquidation transaction', { version, size, flashLoan: true });
+
+  return sendTransaction(connection, transaction.serialize(), lastValidBlockHeight);
+};
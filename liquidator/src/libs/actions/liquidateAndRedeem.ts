@@ -3,11 +3,25 @@ import {
 } from '@solana/spl-token';
 import {
   Account,
-  Connection,
+  AddressLookupTableAccount,
   PublicKey,
-  Transaction,
   TransactionInstruction,
 } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { getComputeBudgetInstructions } from 'libs/computeBudget';
+import { LiquidatorConnection } from 'libs/connection';
+import { getLogger } from 'libs/logger';
+import { sendTransaction } from 'libs/sender';
+import {
+  checkSimulatedProfit,
+  getCollateralUnitPrice,
+  getSimulationLogFields,
+  getUnitPrice,
+  Preflight,
+  SimulatedAccount,
+  simulateInstructions,
+} from 'libs/simulation';
+import { buildTransaction } from 'libs/transaction';
 import {
   getTokenInfoFromMarket,
 } from 'libs/utils';
@@ -15,16 +29,24 @@ import { findWhere, map } from 'underscore';
 import { refreshReserveInstruction } from 'models/instructions/refreshReserve';
 import { LiquidateObligationAndRedeemReserveCollateral } from 'models/instructions/LiquidateObligationAndRedeemReserveCollateral';
 import { refreshObligationInstruction } from 'models/instructions/refreshObligation';
+import { liquidateObligationInstruction } from 'models/instructions/liquidateObligation';
 import { MarketConfig, MarketConfigReserve } from 'global';
 
-export const liquidateAndRedeem = async (
-  connection: Connection,
-  payer: Account,
+const logger = getLogger('liquidateAndRedeem');
+
+// Builds the refresh, token account creation and liquidation instructions of a liquidation.
+// The liquidation instruction is returned separately so callers can wrap it, e.g. in a flash loan.
+// Without redeem the seized collateral is kept as is instead of being redeemed for liquidity.
+export const getLiquidateAndRedeemInstructions = async (
+  connection: LiquidatorConnection,
+  payer: Pick<Account, 'publicKey'>,
   liquidityAmount: number | string,
   repayTokenSymbol: string,
   withdrawTokenSymbol: string,
   lendingMarket: MarketConfig,
   obligation: any,
+  createRepayAccount = false,
+  redeem = true,
 ) => {
   const ixs: TransactionInstruction[] = [];
 
@@ -60,6 +82,20 @@ export const liquidateAndRedeem = async (
     payer.publicKey,
   );
 
+  if (createRepayAccount) {
+    const repayAccountInfo = await connection.getAccountInfo(repayAccount);
+    if (!repayAccountInfo) {
+      ixs.push(Token.createAssociatedTokenAccountInstruction(
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        TOKEN_PROGRAM_ID,
+        new PublicKey(repayTokenInfo.mintAddress),
+        repayAccount,
+        payer.publicKey,
+        payer.publicKey,
+      ));
+    }
+  }
+
   const reserveSymbolToReserveMap = new Map<string, MarketConfigReserve>(
     lendingMarket.reserves.map((reserve) => [reserve.liquidityToken.symbol, reserve]),
   );
@@ -102,7 +138,7 @@ export const liquidateAndRedeem = async (
   const rewardedWithdrawalLiquidityAccountInfo = await connection.getAccountInfo(
     rewardedWithdrawalLiquidityAccount,
   );
-  if (!rewardedWithdrawalLiquidityAccountInfo) {
+  if (redeem && !rewardedWithdrawalLiquidityAccountInfo) {
     const createUserCollateralAccountIx = Token.createAssociatedTokenAccountInstruction(
       ASSOCIATED_TOKEN_PROGRAM_ID,
       TOKEN_PROGRAM_ID,
@@ -114,32 +150,202 @@ export const liquidateAndRedeem = async (
     ixs.push(createUserCollateralAccountIx);
   }
 
-  ixs.push(
-    LiquidateObligationAndRedeemReserveCollateral(
-      liquidityAmount,
-      repayAccount,
-      rewardedWithdrawalCollateralAccount,
-      rewardedWithdrawalLiquidityAccount,
-      new PublicKey(repayReserve.address),
-      new PublicKey(repayReserve.liquidityAddress),
-      new PublicKey(withdrawReserve.address),
-      new PublicKey(withdrawReserve.collateralMintAddress),
-      new PublicKey(withdrawReserve.collateralSupplyAddress),
-      new PublicKey(withdrawReserve.liquidityAddress),
-      new PublicKey(withdrawReserve.liquidityFeeReceiverAddress),
-      obligation.pubkey,
-      new PublicKey(lendingMarket.address),
-      new PublicKey(lendingMarket.authorityAddress),
-      payer.publicKey,
-    ),
+  const liquidateIx = redeem ? LiquidateObligationAndRedeemReserveCollateral(
+    liquidityAmount,
+    repayAccount,
+    rewardedWithdrawalCollateralAccount,
+    rewardedWithdrawalLiquidityAccount,
+    new PublicKey(repayReserve.address),
+    new PublicKey(repayReserve.liquidityAddress),
+    new PublicKey(withdrawReserve.address),
+    new PublicKey(withdrawReserve.collateralMintAddress),
+    new PublicKey(withdrawReserve.collateralSupplyAddress),
+    new PublicKey(withdrawReserve.liquidityAddress),
+    new PublicKey(withdrawReserve.liquidityFeeReceiverAddress),
+    obligation.pubkey,
+    new PublicKey(lendingMarket.address),
+    new PublicKey(lendingMarket.authorityAddress),
+    payer.publicKey,
+  ) : liquidateObligationInstruction(
+    liquidityAmount,
+    repayAccount,
+    rewardedWithdrawalCollateralAccount,
+    new PublicKey(repayReserve.address),
+    new PublicKey(repayReserve.liquidityAddress),
+    new PublicKey(withdrawReserve.address),
+    new PublicKey(withdrawReserve.collateralSupplyAddress),
+    obligation.pubkey,
+    new PublicKey(lendingMarket.address),
+    new PublicKey(lendingMarket.authorityAddress),
+    payer.publicKey,
+  );
+
+  return {
+    setupIxs: ixs,
+    liquidateIx,
+    repayAccount,
+    repayReserve,
+    repayTokenInfo,
+    withdrawReserve,
+    withdrawTokenInfo,
+    rewardedWithdrawalCollateralAccount,
+    rewardedWithdrawalLiquidityAccount,
+  };
+};
+
+// The wallet's token accounts a liquidation moves balances of, priced for the preflight report
+export const getLiquidationAccounts = (
+  instructions: {
+    repayAccount: PublicKey;
+    repayTokenInfo: { mintAddress: string };
+    withdrawTokenInfo: { mintAddress: string };
+    rewardedWithdrawalCollateralAccount: PublicKey;
+    rewardedWithdrawalLiquidityAccount: PublicKey;
+  },
+  repayTokenSymbol: string,
+  withdrawTokenSymbol: string,
+  preflight: Preflight,
+): SimulatedAccount[] => {
+  const withdrawUnitPrice = getUnitPrice(
+    preflight.tokensOracle,
+    instructions.withdrawTokenInfo.mintAddress,
+  );
+  return [
+    {
+      address: instructions.repayAccount,
+      symbol: repayTokenSymbol,
+      unitPrice: getUnitPrice(preflight.tokensOracle, instructions.repayTokenInfo.mintAddress),
+    },
+    {
+      address: instructions.rewardedWithdrawalCollateralAccount,
+      symbol: `c${withdrawTokenSymbol}`,
+      unitPrice: getCollateralUnitPrice(withdrawUnitPrice, preflight.withdrawReserve),
+    },
+    {
+      address: instructions.rewardedWithdrawalLiquidityAccount,
+      symbol: withdrawTokenSymbol,
+      unitPrice: withdrawUnitPrice,
+    },
+  ];
+};
+
+// Builds a liquidation and simulates it. With preflight the simulation reads back and values
+// the wallet's balance changes.
+const prepareLiquidateAndRedeem = async (
+  connection: LiquidatorConnection,
+  payer: Pick<Account, 'publicKey'>,
+  liquidityAmount: number | string,
+  repayTokenSymbol: string,
+  withdrawTokenSymbol: string,
+  lendingMarket: MarketConfig,
+  obligation: any,
+  preflight?: Preflight,
+  lookupTable?: AddressLookupTableAccount,
+  redeem = true,
+) => {
+  const instructions = await getLiquidateAndRedeemInstructions(
+    connection,
+    payer,
+    liquidityAmount,
+    repayTokenSymbol,
+    withdrawTokenSymbol,
+    lendingMarket,
+    obligation,
+    false,
+    redeem,
   );
 
-  const tx = new Transaction().add(...ixs);
-  const { blockhash } = await connection.getRecentBlockhash();
-  tx.recentBlockhash = blockhash;
-  tx.feePayer = payer.publicKey;
-  tx.sign(payer);
+  const ixs = [...instructions.setupIxs, instructions.liquidateIx];
+  const lookupTables = lookupTable ? [lookupTable] : undefined;
+  const simulation = await simulateInstructions(
+    connection,
+    payer.publicKey,
+    ixs,
+    lookupTables,
+    preflight
+      ? getLiquidationAccounts(instructions, repayTokenSymbol, withdrawTokenSymbol, preflight)
+      : [],
+  );
+  return { ixs, lookupTables, simulation };
+};
+
+// Simulates a liquidation without signing or sending it, so only the payer's public key is needed
+export const simulateLiquidateAndRedeem = async (
+  connection: LiquidatorConnection,
+  payer: Pick<Account, 'publicKey'>,
+  liquidityAmount: number | string,
+  repayTokenSymbol: string,
+  withdrawTokenSymbol: string,
+  lendingMarket: MarketConfig,
+  obligation: any,
+  preflight: Preflight,
+  lookupTable?: AddressLookupTableAccount,
+  redeem = true,
+) => {
+  const { simulation } = await prepareLiquidateAndRedeem(
+    connection,
+    payer,
+    liquidityAmount,
+    repayTokenSymbol,
+    withdrawTokenSymbol,
+    lendingMarket,
+    obligation,
+    preflight,
+    lookupTable,
+    redeem,
+  );
+  return simulation;
+};
+
+export const liquidateAndRedeem = async (
+  connection: LiquidatorConnection,
+  payer: Account,
+  liquidityAmount: number | string,
+  repayTokenSymbol: string,
+  withdrawTokenSymbol: string,
+  lendingMarket: MarketConfig,
+  obligation: any,
+  // cap on the priority fee, in lamports
+  maxPriorityFeeLamports?: BigNumber,
+  // the market's lookup table, without it a legacy transaction is sent
+  lookupTable?: AddressLookupTableAccount,
+  redeem = true,
+  // aborts before sending when the simulated profit is too low
+  preflight?: Preflight,
+) => {
+  const { ixs, lookupTables, simulation } = await prepareLiquidateAndRedeem(
+    connection,
+    payer,
+    liquidityAmount,
+    repayTokenSymbol,
+    withdrawTokenSymbol,
+    lendingMarket,
+    obligation,
+    preflight,
+    lookupTable,
+    redeem,
+  );
+  if (preflight) {
+    logger.info('simulated liquidation', getSimulationLogFields(simulation));
+    checkSimulatedProfit(simulation, preflight);
+  }
+
+  const computeBudgetIxs = await getComputeBudgetInstructions(
+    connection,
+    ixs,
+    simulation.unitsConsumed,
+    maxPriorityFeeLamports,
+  );
+
+  const {
+    transaction, version, size, lastValidBlockHeight,
+  } = await buildTransaction(
+    connection,
+    payer,
+    [...computeBudgetIxs, ...ixs],
+    lookupTables,
+  );
+  logger.info('sending liquidation transaction', { version: version, size });
 
-  const txHash = await connection.sendRawTransaction(tx.serialize(), { skipPreflight: false });
-  await connection.confirmTransaction(txHash, 'processed');
+  return sendTransaction(connection, transaction.serialize(), lastValidBlockHeight);
 };
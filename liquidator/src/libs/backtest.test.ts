@@ -0,0 +1,80 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { MarketConfig } from 'global';
+import { replaySnapshots } from './backtest';
+import { encodeObligationAccount, encodeReserveAccount } from './fakeConnection';
+import { MarketSnapshot, SnapshotTokenOracleData } from './snapshot';
+
+const LENDING_MARKET = Keypair.generate().publicKey;
+const SOL = Keypair.generate().publicKey;
+const USDC = Keypair.generate().publicKey;
+// a reserve the market config doesn't know about yet
+const NEW = Keypair.generate().publicKey;
+
+const market = { address: LENDING_MARKET.toBase58(), reserves: [] } as unknown as MarketConfig;
+
+const reserveAccount = (pubkey: PublicKey) => ({
+  pubkey: pubkey.toBase58(),
+  data: encodeReserveAccount({
+    lendingMarket: LENDING_MARKET,
+    liquidityAvailableAmount: new BN('1000000000000'),
+    loanToValueRatio: 75,
+    liquidationThreshold: 80,
+    maxLiquidationThreshold: 80,
+    liquidationBonus: 5,
+    maxLiquidationBonus: 5,
+  }).toString('base64'),
+});
+
+// 10 tokens of 9 decimals deposited in the reserve, against the given USDC borrowed
+const obligationAccount = (depositReserve: PublicKey, borrowedUSDC: number) => ({
+  pubkey: Keypair.generate().publicKey.toBase58(),
+  data: encodeObligationAccount(
+    LENDING_MARKET,
+    Keypair.generate().publicKey,
+    [{ depositReserve, depositedAmount: new BN('10000000000') }],
+    [{
+      borrowReserve: USDC,
+      borrowedAmountWads: new BN(borrowedUSDC).mul(new BN('1000000')).mul(new BN('1000000000000000000')),
+    }],
+  ).toString('base64'),
+});
+
+const oracle = (reserve: PublicKey, symbol: string, decimals: number, price: number): SnapshotTokenOracleData => ({
+  symbol,
+  reserveAddress: reserve.toBase58(),
+  mintAddress: symbol,
+  decimals: (10 ** decimals).toString(),
+  price: price.toString(),
+  smoothedPrice: price.toString(),
+  source: null,
+  confidence: '0',
+  publishSlot: null,
+  publishTime: null,
+});
+
+describe('replaySnapshots', () => {
+  it('reports obligations that fail to refresh as skipped and evaluates the others', () => {
+    const healthy = obligationAccount(SOL, 700);
+    const unknownReserve = obligationAccount(NEW, 700);
+    const snapshot: MarketSnapshot = {
+      slot: 100,
+      timestamp: null,
+      market,
+      obligations: [healthy, unknownReserve],
+      reserves: [reserveAccount(SOL), reserveAccount(USDC), reserveAccount(NEW)],
+      tokensOracle: [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)],
+    };
+
+    const report = replaySnapshots([snapshot], { slippageBps: 0, txCostUSD: 0 });
+
+    expect(report.obligationsEvaluated).toBe(2);
+    expect(report.unhealthyObligations).toBe(0);
+    expect(report.skipped).toEqual([{
+      slot: 100,
+      market: market.address,
+      obligation: unknownReserve.pubkey,
+      reason: expect.stringMatching(`Missing token info for reserve ${NEW.toBase58()}`),
+    }]);
+  });
+});
@@ -0,0 +1,192 @@
+import BigNumber from 'bignumber.js';
+import { PaperWallet } from './paperWallet';
+import { planLiquidation } from './planLiquidation';
+import {
+  calculateRefreshedObligation,
+  isObligationUnhealthy,
+  RefreshedObligation,
+} from './refreshObligation';
+import { compareStrings, loadSnapshot, MarketSnapshot } from './snapshot';
+
+export type BacktestOptions = {
+  slippageBps: number;
+  txCostUSD: number;
+  // wallet to size liquidations with, unbounded but by the program when undefined. It is not
+  // debited, every liquidation is sized against the same balances.
+  paperWallet?: PaperWallet;
+};
+
+export type BacktestLiquidation = {
+  slot: number;
+  market: string;
+  obligation: string;
+  // USD
+  borrowedValue: string;
+  unhealthyBorrowValue: string;
+  repaySymbol: string;
+  withdrawSymbol: string;
+  // base units
+  repayAmount: string;
+  withdrawAmount: string;
+  // USD
+  repayValue: string;
+  withdrawValue: string;
+  estimatedProfit: string;
+};
+
+// An unhealthy obligation that no liquidation could be planned for
+export type BacktestMiss = {
+  slot: number;
+  market: string;
+  obligation: string;
+  reasons: string[];
+};
+
+// An obligation that couldn't be evaluated, e.g. for a reserve missing from the market config
+export type BacktestSkip = {
+  slot: number;
+  market: string;
+  obligation: string;
+  reason: string;
+};
+
+export type BacktestReport = {
+  snapshots: number;
+  fromSlot: number | null;
+  toSlot: number | null;
+  slippageBps: number;
+  txCostUSD: number;
+  obligationsEvaluated: number;
+  unhealthyObligations: number;
+  liquidations: BacktestLiquidation[];
+  missed: BacktestMiss[];
+  skipped: BacktestSkip[];
+  totalEstimatedProfit: string;
+};
+
+// Evaluates every obligation of the snapshot like the liquidator does: refresh, pair selection
+// and sizing. An obligation that was already counted at the same lastUpdate slot in an earlier
+// snapshot is not counted again, as the liquidator would have liquidated it then.
+function replaySnapshot(
+  snapshot: MarketSnapshot,
+  options: BacktestOptions,
+  report: BacktestReport,
+  counted: Map<string, string>,
+) {
+  const {
+    slot,
+    market,
+    obligations,
+    reserves,
+    tokensOracle,
+  } = loadSnapshot(snapshot);
+
+  obligations.forEach((obligation) => {
+    report.obligationsEvaluated += 1;
+    const address = obligation.pubkey.toBase58();
+    let refreshedObligation: RefreshedObligation;
+    try {
+      refreshedObligation = calculateRefreshedObligation(
+        obligation.info,
+        reserves,
+        tokensOracle,
+      );
+    } catch (err) {
+      report.skipped.push({
+        slot,
+        market: market.address,
+        obligation: address,
+        reason: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+    if (!isObligationUnhealthy(refreshedObligation)) {
+      return;
+    }
+    const lastUpdateSlot = obligation.info.lastUpdate.slot.toString();
+    if (counted.get(address) === lastUpdateSlot) {
+      return;
+    }
+    counted.set(address, lastUpdateSlot);
+    report.unhealthyObligations += 1;
+
+    const plan = planLiquidation(refreshedObligation, reserves, {
+      maxRepayAmounts: options.paperWallet?.getMaxRepayAmounts(market, refreshedObligation.borrows),
+      slippageBps: options.slippageBps,
+      txCostUSD: options.txCostUSD,
+    });
+    const [selected] = plan.candidates;
+    if (!selected) {
+      report.missed.push({
+        slot,
+        market: market.address,
+        obligation: address,
+        reasons: plan.rejected.map((pair) => `${pair.borrowSymbol}->${pair.depositSymbol}: ${pair.reason}`),
+      });
+      return;
+    }
+
+    report.liquidations.push({
+      slot,
+      market: market.address,
+      obligation: address,
+      borrowedValue: refreshedObligation.borrowedValue.toFixed(2),
+      unhealthyBorrowValue: refreshedObligation.unhealthyBorrowValue.toFixed(2),
+      repaySymbol: selected.borrow.symbol,
+      withdrawSymbol: selected.deposit.symbol,
+      repayAmount: selected.amount.repayAmount.toFixed(0),
+      withdrawAmount: selected.amount.withdrawLiquidityAmount.toFixed(0),
+      repayValue: selected.amount.repayValue.toFixed(2),
+      withdrawValue: selected.amount.withdrawValue.toFixed(2),
+      estimatedProfit: selected.score.toFixed(2),
+    });
+  });
+}
+
+// Replays recorded snapshots offline. Snapshots are replayed in slot then market order and
+// obligations in address order, and the report holds nothing time or machine dependent, so the
+// same snapshots and options always give the same report.
+export function replaySnapshots(snapshots: MarketSnapshot[], options: BacktestOptions): BacktestReport {
+  const ordered = [...snapshots].sort(
+    (a, b) => a.slot - b.slot || compareStrings(a.market.address, b.market.address),
+  );
+  const report: BacktestReport = {
+    snapshots: ordered.length,
+    fromSlot: ordered.length ? ordered[0].slot : null,
+    toSlot: ordered.length ? ordered[ordered.length - 1].slot : null,
+    slippageBps: options.slippageBps,
+    txCostUSD: options.txCostUSD,
+    obligationsEvaluated: 0,
+    unhealthyObligations: 0,
+    liquidations: [],
+    missed: [],
+    skipped: [],
+    totalEstimatedProfit: '0',
+  };
+
+  // per market, obligation => lastUpdate slot when last counted
+  const counted = new Map<string, Map<string, string>>();
+  ordered.forEach((snapshot) => {
+    if (!counted.has(snapshot.market.address)) {
+      counted.set(snapshot.market.address, new Map());
+    }
+    replaySnapshot(snapshot, options, report, counted.get(snapshot.market.address)!);
+  });
+
+  report.totalEstimatedProfit = report.liquidations
+    .reduce((total, liquidation) => total.plus(liquidation.estimatedProfit), new BigNumber(0))
+    .toFixed(2);
+  return report;
+}
+
+export function formatBacktestReport(report: BacktestReport) {
+  const lines = report.liquidations.map((liquidation) => `slot ${liquidation.slot} | market ${liquidation.market} | obligation ${liquidation.obligation}`
+    + ` | repay $${liquidation.repayValue} ${liquidation.repaySymbol} for $${liquidation.withdrawValue} ${liquidation.withdrawSymbol}`
+    + ` | estimated profit $${liquidation.estimatedProfit}`);
+  return [
+    ...lines,
+    `${report.snapshots} snapshots from slot ${report.fromSlot} to ${report.toSlot}: ${report.obligationsEvaluated} obligations evaluated,`
+      + ` ${report.unhealthyObligations} unhealthy, ${report.liquidations.length} liquidations, ${report.missed.length} missed,`
+      + ` ${report.skipped.length} skipped, estimated profit $${report.totalEstimatedProfit}`,
+  ].join('\n');
+}
@@ -0,0 +1,135 @@
+import {
+  ComputeBudgetInstruction,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import {
+  getComputeBudgetInstructions,
+  getMaxPriorityFeeLamports,
+  getPriorityFeeConfig,
+  MAX_COMPUTE_UNITS,
+} from './computeBudget';
+import { TokenOracleData } from './oracle';
+
+const ENV_KEYS = [
+  'PRIORITY_FEE_PERCENTILE',
+  'PRIORITY_FEE_MAX_PROFIT_SHARE',
+  'PRIORITY_FEE_MAX_LAMPORTS',
+  'COMPUTE_UNIT_MARGIN',
+];
+
+const obligation = Keypair.generate().publicKey;
+const reserve = Keypair.generate().publicKey;
+const instruction = new TransactionInstruction({
+  programId: PublicKey.default,
+  keys: [
+    { pubkey: obligation, isSigner: false, isWritable: true },
+    { pubkey: reserve, isSigner: false, isWritable: true },
+    { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: false },
+  ],
+  data: Buffer.alloc(0),
+});
+
+// recent fees of 0 to 900 micro lamports per compute unit
+const fakeConnection = () => ({
+  getRecentPrioritizationFees: jest.fn(async () => [500, 0, 900, 100, 300, 200, 800, 400, 700, 600]
+    .map((prioritizationFee, i) => ({ slot: i, prioritizationFee }))),
+});
+
+const decode = (instructions: TransactionInstruction[]) => ({
+  units: ComputeBudgetInstruction.decodeSetComputeUnitLimit(instructions[0]).units,
+  microLamports: Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instructions[1]).microLamports),
+});
+
+describe('getPriorityFeeConfig', () => {
+  afterEach(() => {
+    ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  it('defaults to the 75th percentile, 10% of the profit and a 10% compute unit margin', () => {
+    expect(getPriorityFeeConfig()).toEqual({
+      percentile: 75,
+      maxProfitShare: 0.1,
+      maxLamports: undefined,
+      computeUnitMargin: 0.1,
+    });
+  });
+
+  it('reads the environment', () => {
+    process.env.PRIORITY_FEE_PERCENTILE = '90';
+    process.env.PRIORITY_FEE_MAX_PROFIT_SHARE = '0.25';
+    process.env.PRIORITY_FEE_MAX_LAMPORTS = '100000';
+    process.env.COMPUTE_UNIT_MARGIN = '0.2';
+
+    expect(getPriorityFeeConfig()).toEqual({
+      percentile: 90,
+      maxProfitShare: 0.25,
+      maxLamports: 100000,
+      computeUnitMargin: 0.2,
+    });
+  });
+});
+
+describe('getMaxPriorityFeeLamports', () => {
+  const tokensOracle = [{ symbol: 'SOL', price: new BigNumber(100) }] as TokenOracleData[];
+  const config = {
+    percentile: 75, maxProfitShare: 0.1, computeUnitMargin: 0.1,
+  };
+
+  it('caps the fee at a share of the expected profit and the absolute cap', () => {
+    // 10% of $5 at $100 a SOL
+    expect(getMaxPriorityFeeLamports(new BigNumber(5), tokensOracle, config)?.toString()).toBe('5000000');
+    expect(getMaxPriorityFeeLamports(new BigNumber(5), tokensOracle, { ...config, maxLamports: 10000 })?.toString())
+      .toBe('10000');
+    expect(getMaxPriorityFeeLamports(new BigNumber(-5), tokensOracle, config)?.toString()).toBe('0');
+  });
+
+  it('only applies the absolute cap without a SOL price', () => {
+    expect(getMaxPriorityFeeLamports(new BigNumber(5), [], config)).toBeUndefined();
+    expect(getMaxPriorityFeeLamports(new BigNumber(5), [], { ...config, maxLamports: 10000 })?.toString())
+      .toBe('10000');
+  });
+});
+
+describe('getComputeBudgetInstructions', () => {
+  afterEach(() => {
+    ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  it('adds the margin to the simulated units and pays a percentile of the recent fees on the writable accounts', async () => {
+    const connection = fakeConnection();
+
+    const instructions = await getComputeBudgetInstructions(connection, [instruction], 200000);
+
+    expect(decode(instructions)).toEqual({ units: 220000, microLamports: 700 });
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({
+      lockedWritableAccounts: [obligation, reserve],
+    });
+  });
+
+  it('derives the limit and the price from the environment', async () => {
+    process.env.PRIORITY_FEE_PERCENTILE = '50';
+    process.env.COMPUTE_UNIT_MARGIN = '0.5';
+
+    const instructions = await getComputeBudgetInstructions(fakeConnection(), [instruction], 200000);
+
+    expect(decode(instructions)).toEqual({ units: 300000, microLamports: 400 });
+  });
+
+  it('caps the limit at the maximum and the price at the max fee', async () => {
+    const instructions = await getComputeBudgetInstructions(
+      fakeConnection(),
+      [instruction],
+      1300000,
+      // 0.5 micro lamports per unit of the 1.4M units
+      new BigNumber(0.7),
+    );
+    expect(decode(instructions)).toEqual({ units: MAX_COMPUTE_UNITS, microLamports: 0 });
+
+    const capped = await getComputeBudgetInstructions(fakeConnection(), [instruction], 200000, new BigNumber(110));
+    // 110 lamports over 220000 units
+    expect(decode(capped)).toEqual({ units: 220000, microLamports: 500 });
+  });
+});
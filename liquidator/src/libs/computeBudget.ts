@@ -0,0 +1,124 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { findWhere } from 'underscore';
+import { TokenOracleData } from './oracle';
+
+export const MAX_COMPUTE_UNITS = 1400000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1000000;
+const LAMPORTS_PER_SOL = 1000000000;
+
+export type PriorityFeeConfig = {
+  // percentile of the recent prioritization fees paid on our writable accounts
+  percentile: number;
+  // share of the expected profit the priority fee may take, e.g. 0.1 for 10%
+  maxProfitShare: number;
+  // absolute cap in lamports
+  maxLamports?: number;
+  // headroom added to the simulated compute units, e.g. 0.1 for 10%
+  computeUnitMargin: number;
+};
+
+export function getPriorityFeeConfig(): PriorityFeeConfig {
+  return {
+    percentile: Number(process.env.PRIORITY_FEE_PERCENTILE || 75),
+    maxProfitShare: Number(process.env.PRIORITY_FEE_MAX_PROFIT_SHARE || 0.1),
+    maxLamports: process.env.PRIORITY_FEE_MAX_LAMPORTS
+      ? Number(process.env.PRIORITY_FEE_MAX_LAMPORTS)
+      : undefined,
+    computeUnitMargin: Number(process.env.COMPUTE_UNIT_MARGIN || 0.1),
+  };
+}
+
+// Largest priority fee worth paying for a liquidation expected to make expectedProfit USD,
+// in lamports. Without a SOL price only the absolute cap applies.
+export function getMaxPriorityFeeLamports(
+  expectedProfit: BigNumber,
+  tokensOracle: TokenOracleData[],
+  config: PriorityFeeConfig,
+) {
+  const caps: BigNumber[] = [];
+  if (config.maxLamports !== undefined) {
+    caps.push(new BigNumber(config.maxLamports));
+  }
+  const solOracle: TokenOracleData | undefined = findWhere(tokensOracle, { symbol: 'SOL' });
+  if (solOracle && solOracle.price.isGreaterThan(0)) {
+    caps.push(BigNumber.max(expectedProfit, 0)
+      .multipliedBy(config.maxProfitShare)
+      .dividedBy(solOracle.price)
+      .multipliedBy(LAMPORTS_PER_SOL)
+      .integerValue(BigNumber.ROUND_FLOOR));
+  }
+  return caps.length ? BigNumber.min(...caps) : undefined;
+}
+
+export function getFeePercentile(fees: number[], percentile: number) {
+  if (!fees.length) {
+    return 0;
+  }
+  const sorted = [...fees].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1),
+  );
+  return sorted[index];
+}
+
+// Lowers the compute unit price so that the whole priority fee stays within maxFeeLamports
+export function capComputeUnitPrice(
+  microLamports: number,
+  computeUnits: number,
+  maxFeeLamports?: BigNumber,
+) {
+  if (!maxFeeLamports) {
+    return microLamports;
+  }
+  const maxMicroLamports = maxFeeLamports
+    .multipliedBy(MICRO_LAMPORTS_PER_LAMPORT)
+    .dividedToIntegerBy(computeUnits)
+    .toNumber();
+  return Math.max(0, Math.min(microLamports, maxMicroLamports));
+}
+
+// Returns the compute unit limit and price instructions to prepend to instructions. The limit
+// is the simulated usage plus a margin, the price is a percentile of what recently landed
+// transactions paid to lock the same writable accounts, capped by maxFeeLamports.
+export async function getComputeBudgetInstructions(
+  connection: Pick<Connection, 'getRecentPrioritizationFees'>,
+  instructions: TransactionInstruction[],
+  unitsConsumed: number,
+  maxFeeLamports?: BigNumber,
+  config: PriorityFeeConfig = getPriorityFeeConfig(),
+) {
+  const writableAccounts = new Map<string, PublicKey>();
+  instructions.forEach((ix) => ix.keys
+    .filter((key) => key.isWritable)
+    .forEach((key) => writableAccounts.set(key.pubkey.toBase58(), key.pubkey)));
+
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: [...writableAccounts.values()],
+  });
+
+  // in decimal, as 200000 units with a 0.1 margin come to 220001 in floating point
+  const units = Math.min(
+    MAX_COMPUTE_UNITS,
+    new BigNumber(unitsConsumed)
+      .multipliedBy(new BigNumber(1).plus(config.computeUnitMargin))
+      .integerValue(BigNumber.ROUND_CEIL)
+      .toNumber(),
+  );
+  const microLamports = capComputeUnitPrice(
+    getFeePercentile(recentFees.map((fee) => fee.prioritizationFee), config.percentile),
+    units,
+    maxFeeLamports,
+  );
+
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+  ];
+}
@@ -0,0 +1,21 @@
+import { Connection } from '@solana/web3.js';
+
+// The subset of Connection the liquidator relies on, so that it can run against anything
+// implementing it, e.g. an RPC pool or the in-memory FakeConnection of the tests
+export type LiquidatorConnection = Pick<Connection, 'commitment'
+| 'rpcEndpoint'
+| 'getSlot'
+| 'getBlockHeight'
+| 'getLatestBlockhash'
+| 'getAccountInfo'
+| 'getMultipleAccountsInfo'
+| 'getProgramAccounts'
+| 'getTokenAccountBalance'
+| 'getAddressLookupTable'
+| 'getRecentPrioritizationFees'
+| 'simulateTransaction'
+| 'sendRawTransaction'
+| 'getSignatureStatuses'
+| 'getTransaction'
+| 'onProgramAccountChange'
+| 'removeProgramAccountChangeListener'>;
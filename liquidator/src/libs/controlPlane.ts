@@ -0,0 +1,170 @@
+import { MarketConfig } from 'global';
+import http from 'http';
+import { getLogger } from './logger';
+
+const logger = getLogger('controlPlane');
+
+// seconds without a completed epoch before /healthz fails
+const DEFAULT_HEALTHZ_MAX_EPOCH_AGE = 600;
+const DEFAULT_CONTROL_HOST = '127.0.0.1';
+
+const MARKET_ACTION = /^\/markets\/([^/]+)\/(pause|resume)$/;
+
+export type WalletBalance = {
+  symbol: string;
+  // in token units, negative when the token account is missing or the read failed
+  balance: number;
+  balanceUSD: number | null;
+};
+
+export type LiquidatorError = {
+  time: string;
+  message: string;
+  market?: string;
+  obligation?: string;
+};
+
+// What the liquidator loop is doing, shared with the control server, and the markets operators
+// paused. Paused markets are skipped by the loop until resumed.
+export class LiquidatorStatus {
+  markets: MarketConfig[];
+
+  startedAt = Date.now();
+
+  epoch = 0;
+
+  lastEpochCompletedAt: number | null = null;
+
+  lastError: LiquidatorError | null = null;
+
+  paused = new Set<string>();
+
+  // per market address
+  walletBalances: Record<string, WalletBalance[]> = {};
+
+  constructor(markets: MarketConfig[]) {
+    this.markets = markets;
+  }
+
+  hasMarket(address: string) {
+    return this.markets.some((market) => market.address === address);
+  }
+
+  isPaused(address: string) {
+    return this.paused.has(address);
+  }
+
+  pause(address: string) {
+    this.paused.add(address);
+  }
+
+  resume(address: string) {
+    this.paused.delete(address);
+  }
+
+  startEpoch(epoch: number) {
+    this.epoch = epoch;
+  }
+
+  completeEpoch() {
+    this.lastEpochCompletedAt = Date.now();
+  }
+
+  recordError(message: string, fields: { market?: string; obligation?: string } = {}) {
+    this.lastError = { time: new Date().toISOString(), message, ...fields };
+  }
+
+  setWalletBalances(market: string, balances: WalletBalance[]) {
+    this.walletBalances[market] = balances;
+  }
+
+  // seconds since the last completed epoch, or since the start before the first one completes
+  getEpochAge(now = Date.now()) {
+    return (now - (this.lastEpochCompletedAt ?? this.startedAt)) / 1000;
+  }
+
+  toJSON() {
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      epoch: this.epoch,
+      lastEpochCompletedAt: this.lastEpochCompletedAt
+        ? new Date(this.lastEpochCompletedAt).toISOString()
+        : null,
+      epochAge: this.getEpochAge(),
+      lastError: this.lastError,
+      markets: this.markets.map((market) => ({
+        address: market.address,
+        name: market.name,
+        paused: this.isPaused(market.address),
+        walletBalances: this.walletBalances[market.address] || [],
+      })),
+    };
+  }
+}
+
+export function getHealthzMaxEpochAge() {
+  return process.env.HEALTHZ_MAX_EPOCH_AGE
+    ? Number(process.env.HEALTHZ_MAX_EPOCH_AGE)
+    : DEFAULT_HEALTHZ_MAX_EPOCH_AGE;
+}
+
+export function getControlPort() {
+  return process.env.CONTROL_PORT ? Number(process.env.CONTROL_PORT) : undefined;
+}
+
+let server: http.Server | undefined;
+
+export function isControlServerEnabled() {
+  return server !== undefined;
+}
+
+const respond = (res: http.ServerResponse, statusCode: number, body: unknown) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(`${JSON.stringify(body)}\n`);
+};
+
+// Serves GET /healthz and /status, and POST /markets/:address/pause and /resume.
+// Listens on CONTROL_HOST, localhost by default, as pausing needs no authentication.
+export function startControlServer(port: number, status: LiquidatorStatus) {
+  server = http.createServer((req, res) => {
+    const url = (req.url || '').split('?')[0];
+    if (req.method === 'GET' && url === '/healthz') {
+      const epochAge = status.getEpochAge();
+      const healthy = epochAge <= getHealthzMaxEpochAge();
+      respond(res, healthy ? 200 : 503, { status: healthy ? 'ok' : 'stale', epochAge });
+      return;
+    }
+    if (req.method === 'GET' && url === '/status') {
+      respond(res, 200, status);
+      return;
+    }
+    const marketAction = MARKET_ACTION.exec(url);
+    if (req.method === 'POST' && marketAction) {
+      const [, address, action] = marketAction;
+      if (!status.hasMarket(address)) {
+        respond(res, 404, { error: `market ${address} not found` });
+        return;
+      }
+      if (action === 'pause') {
+        status.pause(address);
+      } else {
+        status.resume(address);
+      }
+      logger.info(action === 'pause' ? 'market paused' : 'market resumed', { market: address });
+      respond(res, 200, { market: address, paused: status.isPaused(address) });
+      return;
+    }
+    respond(res, 404, { error: 'not found' });
+  });
+  // e.g. EADDRINUSE or EACCES, the liquidator keeps running without the control server
+  server.on('error', (err: NodeJS.ErrnoException) => {
+    logger.error('control server failed', { port, code: err.code, error: err });
+  });
+  server.listen(port, process.env.CONTROL_HOST || DEFAULT_CONTROL_HOST);
+  return server;
+}
+
+export function stopControlServer() {
+  server?.close();
+  server = undefined;
+}
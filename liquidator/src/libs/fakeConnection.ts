@@ -0,0 +1,916 @@
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  Commitment,
+  ComputeBudgetProgram,
+  ConfirmedTransactionMeta,
+  KeyedAccountInfo,
+  Message,
+  PublicKey,
+  SendTransactionError,
+  TokenBalance,
+  Transaction,
+  TransactionError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ObligationCollateralLayout,
+  ObligationLayout,
+  ObligationLiquidityLayout,
+  OBLIGATION_SIZE,
+  parseObligation,
+  parseReserve,
+  RESERVE_SIZE,
+  ReserveLayout,
+} from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import bs58 from 'bs58';
+import { MarketConfig } from 'global';
+import { LendingInstruction } from 'models/instructions/instruction';
+import { LiquidatorConnection } from './connection';
+import { calculateLiquidationAmount } from './liquidationAmount';
+import { TokenOracleData } from './oracle';
+import { LendingError } from './programErrors';
+import {
+  calculateRefreshedObligation,
+  isObligationUnhealthy,
+} from './refreshObligation';
+import { deserializeTokenOracleData, MarketSnapshot } from './snapshot';
+import { getProgramIdForCurrentDeployment, WAD } from './utils';
+
+const TOKEN_ACCOUNT_SIZE = 165;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const TOKEN_ACCOUNT_STATE_OFFSET = 108;
+// spl-token TokenError::InsufficientFunds
+const TOKEN_INSUFFICIENT_FUNDS = 1;
+
+// prices are written to pyth accounts with this exponent
+const PYTH_EXPONENT = -8;
+const PYTH_ACCOUNT_SIZE = 240;
+
+// blocks a blockhash stays valid for, as on mainnet
+const BLOCKHASH_VALID_BLOCKS = 150;
+const RENT_EXEMPT_TOKEN_ACCOUNT_LAMPORTS = 2039280;
+const UNITS_PER_INSTRUCTION = 50000;
+const FEE_LAMPORTS_PER_SIGNATURE = 5000;
+
+// A transaction the fake chain processed, with the instructions it was made of
+export type FakeTransaction = {
+  signature: string;
+  slot: number;
+  err: TransactionError | null;
+  logs: string[];
+  instructions: {
+    programId: PublicKey;
+    keys: PublicKey[];
+    data: Buffer;
+  }[];
+  // as returned by getTransaction
+  meta: ConfirmedTransactionMeta;
+};
+
+// Thrown by an instruction to fail the whole transaction like the runtime would
+class InstructionFailure extends Error {
+  error: TransactionError;
+
+  constructor(index: number, error: { Custom: number } | string, message: string) {
+    super(message);
+    // keeps instanceof working when compiled to es5
+    Object.setPrototypeOf(this, InstructionFailure.prototype);
+    this.error = { InstructionError: [index, error] };
+  }
+}
+
+// State of one transaction while it is processed. Accounts are copied on write, so a failed
+// transaction is discarded by dropping its execution.
+type Execution = {
+  accounts: Map<string, AccountInfo<Buffer>>;
+  // reserves and obligations refreshed earlier in the transaction
+  refreshed: Set<string>;
+  changed: Set<string>;
+  logs: string[];
+};
+
+// An SPL token account holding amount base units of mint
+export function encodeTokenAccount(mint: PublicKey, owner: PublicKey, amount: number | string | BN) {
+  const data = Buffer.alloc(TOKEN_ACCOUNT_SIZE);
+  mint.toBuffer().copy(data, 0);
+  owner.toBuffer().copy(data, 32);
+  new BN(amount.toString()).toArrayLike(Buffer, 'le', 8).copy(data, TOKEN_ACCOUNT_AMOUNT_OFFSET);
+  // initialized
+  data[TOKEN_ACCOUNT_STATE_OFFSET] = 1;
+  return data;
+}
+
+const getTokenAmount = (data: Buffer) => new BN(
+  data.slice(TOKEN_ACCOUNT_AMOUNT_OFFSET, TOKEN_ACCOUNT_AMOUNT_OFFSET + 8),
+  'le',
+);
+
+const getTokenMint = (data: Buffer) => new PublicKey(data.slice(0, 32));
+
+const getTokenOwner = (data: Buffer) => new PublicKey(data.slice(32, 64));
+
+// Balances of the transaction's token accounts, in base units
+const getTokenBalances = (
+  accounts: Map<string, AccountInfo<Buffer>>,
+  accountKeys: PublicKey[],
+): TokenBalance[] => accountKeys
+  .map((key, accountIndex) => ({ account: accounts.get(key.toBase58()), accountIndex }))
+  .filter(({ account }) => account && account.owner.equals(TOKEN_PROGRAM_ID))
+  .map(({ account, accountIndex }) => {
+    const amount = getTokenAmount(account!.data).toString();
+    return {
+      accountIndex,
+      mint: getTokenMint(account!.data).toBase58(),
+      owner: getTokenOwner(account!.data).toBase58(),
+      uiTokenAmount: {
+        amount,
+        decimals: 0,
+        uiAmount: Number(amount),
+        uiAmountString: amount,
+      },
+    };
+  });
+
+const writeI64 = (data: Buffer, offset: number, value: BigNumber.Value) => new BN(
+  new BigNumber(value).shiftedBy(-PYTH_EXPONENT).integerValue().toFixed(),
+).toTwos(64).toArrayLike(Buffer, 'le', 8).copy(data, offset);
+
+// A trading pyth v2 price account, in the layout parsePythPriceData reads
+export function encodePythPriceAccount(
+  price: BigNumber.Value,
+  smoothedPrice: BigNumber.Value,
+  confidence: BigNumber.Value,
+  publishSlot: number,
+  publishTime: number,
+) {
+  const data = Buffer.alloc(PYTH_ACCOUNT_SIZE);
+  data.writeUInt32LE(0xa1b2c3d4, 0);
+  data.writeUInt32LE(2, 4);
+  data.writeUInt32LE(3, 8);
+  data.writeInt32LE(PYTH_EXPONENT, 20);
+  writeI64(data, 48, smoothedPrice);
+  writeI64(data, 72, confidence);
+  new BN(publishTime).toArrayLike(Buffer, 'le', 8).copy(data, 96);
+  writeI64(data, 208, price);
+  writeI64(data, 216, confidence);
+  data.writeUInt32LE(1, 224);
+  new BN(publishSlot).toArrayLike(Buffer, 'le', 8).copy(data, 232);
+  return data;
+}
+
+// The raw layouts of the sdk, which parseObligation and parseReserve decode, are used to write
+// the accounts back after an instruction changed them
+function decodeObligation(data: Buffer) {
+  const proto: any = ObligationLayout.decode(data);
+  const borrowsOffset = proto.depositsLen * ObligationCollateralLayout.span;
+  const deposits: any[] = [];
+  const borrows: any[] = [];
+  for (let i = 0; i < proto.depositsLen; i += 1) {
+    deposits.push(ObligationCollateralLayout.decode(proto.dataFlat, i * ObligationCollateralLayout.span));
+  }
+  for (let i = 0; i < proto.borrowsLen; i += 1) {
+    borrows.push(ObligationLiquidityLayout.decode(
+      proto.dataFlat,
+      borrowsOffset + i * ObligationLiquidityLayout.span,
+    ));
+  }
+  return { proto, deposits, borrows };
+}
+
+function encodeObligation(
+  original: Buffer,
+  { proto, deposits, borrows }: ReturnType<typeof decodeObligation>,
+) {
+  const dataFlat = Buffer.alloc(proto.dataFlat.length);
+  deposits.forEach((deposit, i) => ObligationCollateralLayout.encode(
+    deposit,
+    dataFlat,
+    i * ObligationCollateralLayout.span,
+  ));
+  borrows.forEach((borrow, i) => ObligationLiquidityLayout.encode(
+    borrow,
+    dataFlat,
+    deposits.length * ObligationCollateralLayout.span + i * ObligationLiquidityLayout.span,
+  ));
+  const data = Buffer.from(original);
+  ObligationLayout.encode({
+    ...proto,
+    depositsLen: deposits.length,
+    borrowsLen: borrows.length,
+    dataFlat,
+  }, data);
+  return data;
+}
+
+// A reserve account with the given fields of the sdk's raw layout, e.g. liquidityMintPubkey or
+// liquidationThreshold, the others are zero but for the version and cumulative borrow rate
+export function encodeReserveAccount(fields: Record<string, any>) {
+  const data = Buffer.alloc(RESERVE_SIZE);
+  ReserveLayout.encode({
+    ...ReserveLayout.decode(data),
+    version: 1,
+    liquidityCumulativeBorrowRateWads: new BN(WAD.toFixed()),
+    ...fields,
+  }, data);
+  return data;
+}
+
+export type ObligationDepositFixture = {
+  depositReserve: PublicKey;
+  // collateral base units
+  depositedAmount: BN;
+};
+
+export type ObligationBorrowFixture = {
+  borrowReserve: PublicKey;
+  borrowedAmountWads: BN;
+  // the reserve's rate at the last refresh, WAD when none is given
+  cumulativeBorrowRateWads?: BN;
+};
+
+// An obligation account of the lending market with the given deposits and borrows
+export function encodeObligationAccount(
+  lendingMarket: PublicKey,
+  owner: PublicKey,
+  deposits: ObligationDepositFixture[],
+  borrows: ObligationBorrowFixture[],
+) {
+  const empty = Buffer.alloc(OBLIGATION_SIZE);
+  return encodeObligation(empty, {
+    proto: {
+      ...ObligationLayout.decode(empty),
+      version: 1,
+      lendingMarket,
+      owner,
+    },
+    deposits: deposits.map((deposit) => ({
+      ...ObligationCollateralLayout.decode(Buffer.alloc(ObligationCollateralLayout.span)),
+      ...deposit,
+    })),
+    borrows: borrows.map((borrow) => ({
+      ...ObligationLiquidityLayout.decode(Buffer.alloc(ObligationLiquidityLayout.span)),
+      cumulativeBorrowRateWads: new BN(WAD.toFixed()),
+      ...borrow,
+    })),
+  });
+}
+
+const toBN = (value: BigNumber) => new BN(value.integerValue(BigNumber.ROUND_FLOOR).toFixed());
+
+const matchesFilter = (data: Buffer, filter: any) => {
+  if (filter.dataSize !== undefined) {
+    return data.length === filter.dataSize;
+  }
+  if (filter.memcmp) {
+    const bytes = Buffer.from(bs58.decode(filter.memcmp.bytes));
+    return data.slice(filter.memcmp.offset, filter.memcmp.offset + bytes.length).equals(bytes);
+  }
+  return true;
+};
+
+// An in-memory stand-in for a Connection to run the liquidator against. It serves accounts,
+// token balances and pyth prices from fixtures, and executes the transactions it is sent:
+// compute budget and associated token account instructions, and the lending program's
+// RefreshReserve, RefreshObligation, LiquidateObligation and
+// LiquidateObligationAndRedeemReserveCollateral, whose effects on the obligation, reserves and
+// token accounts are applied to the stored accounts. Liquidations are computed with the
+// liquidator's own mirror of the program, so it tests the liquidator's behavior, not its parity
+// with the program. Every transaction lands in a slot of its own.
+export class FakeConnection implements LiquidatorConnection {
+  commitment: Commitment = 'confirmed';
+
+  rpcEndpoint = 'fake';
+
+  slot: number;
+
+  accounts = new Map<string, AccountInfo<Buffer>>();
+
+  // prices the fake program checks obligation health with, and writes to the pyth accounts
+  tokensOracle: TokenOracleData[] = [];
+
+  lookupTables = new Map<string, AddressLookupTableAccount>();
+
+  // every transaction processed, failed ones included but not failed preflights
+  transactions: FakeTransaction[] = [];
+
+  private listeners = new Map<number, {
+    programId: PublicKey;
+    filters: any[];
+    callback: (keyedAccountInfo: KeyedAccountInfo, context: { slot: number }) => void;
+  }>();
+
+  private nextListenerId = 0;
+
+  constructor(slot = 1) {
+    this.slot = slot;
+  }
+
+  // ---- fixtures
+
+  setAccount(address: PublicKey, account: Partial<AccountInfo<Buffer>> & { data: Buffer }) {
+    this.accounts.set(address.toBase58(), {
+      executable: false,
+      lamports: RENT_EXEMPT_TOKEN_ACCOUNT_LAMPORTS,
+      owner: new PublicKey(getProgramIdForCurrentDeployment()),
+      rentEpoch: 0,
+      ...account,
+    });
+  }
+
+  setTokenAccount(address: PublicKey, mint: PublicKey, owner: PublicKey, amount: number | string | BN) {
+    this.setAccount(address, {
+      owner: TOKEN_PROGRAM_ID,
+      data: encodeTokenAccount(mint, owner, amount),
+    });
+  }
+
+  getTokenBalance(address: PublicKey) {
+    const account = this.accounts.get(address.toBase58());
+    return account ? getTokenAmount(account.data) : undefined;
+  }
+
+  // Sets the price of a token of the market, both for the fake program and in its pyth account
+  setPrice(market: MarketConfig, symbol: string, price: BigNumber.Value, smoothedPrice = price) {
+    const reserve = market.reserves.find((config) => config.liquidityToken.symbol === symbol);
+    if (!reserve) {
+      throw new Error(`${symbol} is not in market ${market.address}`);
+    }
+    const publishTime = Math.floor(Date.now() / 1000);
+    this.tokensOracle = this.tokensOracle.filter((oracle) => oracle.reserveAddress !== reserve.address);
+    this.tokensOracle.push({
+      symbol,
+      reserveAddress: reserve.address,
+      mintAddress: reserve.liquidityToken.mint,
+      decimals: new BigNumber(10 ** reserve.liquidityToken.decimals),
+      price: new BigNumber(price),
+      smoothedPrice: new BigNumber(smoothedPrice),
+      source: 'pyth',
+      confidence: new BigNumber(0),
+      publishSlot: this.slot,
+      publishTime,
+    });
+    this.setAccount(new PublicKey(reserve.pythOracle), {
+      owner: PublicKey.default,
+      data: encodePythPriceAccount(price, smoothedPrice, 0, this.slot, publishTime),
+    });
+  }
+
+  // Loads the obligations, reserves and prices of a recorded market snapshot
+  loadSnapshot(snapshot: MarketSnapshot) {
+    [...snapshot.obligations, ...snapshot.reserves].forEach((account) => this.setAccount(
+      new PublicKey(account.pubkey),
+      { data: Buffer.from(account.data, 'base64') },
+    ));
+    snapshot.tokensOracle.map(deserializeTokenOracleData).forEach((oracle) => this.setPrice(
+      snapshot.market,
+      oracle.symbol,
+      oracle.price,
+      oracle.smoothedPrice,
+    ));
+  }
+
+  // ---- Connection
+
+  async getSlot() {
+    return this.slot;
+  }
+
+  async getBlockHeight() {
+    return this.slot;
+  }
+
+  async getLatestBlockhash() {
+    return {
+      blockhash: bs58.encode(new BN(this.slot).toArrayLike(Buffer, 'le', 32)),
+      lastValidBlockHeight: this.slot + BLOCKHASH_VALID_BLOCKS,
+    };
+  }
+
+  async getAccountInfo(address: PublicKey) {
+    return this.accounts.get(address.toBase58()) || null;
+  }
+
+  async getMultipleAccountsInfo(addresses: PublicKey[]) {
+    return addresses.map((address) => this.accounts.get(address.toBase58()) || null);
+  }
+
+  // both the plain and the withContext responses
+  async getProgramAccounts(programId: PublicKey, config: any = {}): Promise<any> {
+    const value = [...this.accounts.entries()]
+      .filter(([, account]) => account.owner.equals(programId)
+        && (config.filters || []).every((filter) => matchesFilter(account.data, filter)))
+      .map(([address, account]) => ({ pubkey: new PublicKey(address), account }));
+    return config.withContext ? { context: { slot: this.slot }, value } : value;
+  }
+
+  async getTokenAccountBalance(address: PublicKey) {
+    const amount = this.getTokenBalance(address);
+    if (!amount) {
+      throw new Error(`could not find token account ${address.toBase58()}`);
+    }
+    return {
+      context: { slot: this.slot },
+      value: { amount: amount.toString(), decimals: 0, uiAmount: amount.toNumber() },
+    };
+  }
+
+  async getAddressLookupTable(address: PublicKey) {
+    return { context: { slot: this.slot }, value: this.lookupTables.get(address.toBase58()) || null };
+  }
+
+  async getRecentPrioritizationFees() {
+    return [];
+  }
+
+  async simulateTransaction(transaction: VersionedTransaction | Transaction | Message, config: any = {}) {
+    if (!(transaction instanceof VersionedTransaction)) {
+      throw new Error('only versioned transactions are simulated');
+    }
+    const execution = this.execute(transaction);
+    const addresses: string[] = config.accounts?.addresses || [];
+    return {
+      context: { slot: this.slot },
+      value: {
+        err: execution.err,
+        logs: execution.logs,
+        unitsConsumed: transaction.message.compiledInstructions.length * UNITS_PER_INSTRUCTION,
+        accounts: execution.err ? null : addresses.map((address) => {
+          const account = execution.accounts.get(address);
+          return account ? {
+            ...account,
+            owner: account.owner.toBase58(),
+            data: [account.data.toString('base64'), 'base64'],
+          } : null;
+        }),
+      },
+    };
+  }
+
+  async sendRawTransaction(raw: Buffer | Uint8Array, options: { skipPreflight?: boolean } = {}) {
+    const transaction = VersionedTransaction.deserialize(raw);
+    const signature = bs58.encode(transaction.signatures[0]);
+    if (this.transactions.some((processed) => processed.signature === signature)) {
+      return signature;
+    }
+
+    const before = this.accounts;
+    const execution = this.execute(transaction);
+    if (execution.err && !options.skipPreflight) {
+      throw new SendTransactionError({
+        action: 'send',
+        signature,
+        transactionMessage: `Transaction simulation failed: ${execution.message}`,
+        logs: execution.logs,
+      });
+    }
+
+    this.slot += 1;
+    if (!execution.err) {
+      this.commit(execution.accounts, execution.changed);
+    }
+    // the fee is paid whether the transaction succeeds or not
+    const fee = FEE_LAMPORTS_PER_SIGNATURE * transaction.signatures.length;
+    this.debitLamports(execution.accountKeys[0], fee);
+    this.transactions.push({
+      signature,
+      slot: this.slot,
+      err: execution.err,
+      logs: execution.logs,
+      instructions: execution.instructions,
+      meta: {
+        fee,
+        err: execution.err,
+        logMessages: execution.logs,
+        preBalances: execution.accountKeys.map((key) => before.get(key.toBase58())?.lamports || 0),
+        postBalances: execution.accountKeys.map((key) => this.accounts.get(key.toBase58())?.lamports || 0),
+        preTokenBalances: getTokenBalances(before, execution.accountKeys),
+        postTokenBalances: getTokenBalances(this.accounts, execution.accountKeys),
+        innerInstructions: [],
+      },
+    });
+    return signature;
+  }
+
+  async getSignatureStatuses(signatures: string[]) {
+    return {
+      context: { slot: this.slot },
+      value: signatures.map((signature) => {
+        const processed = this.transactions.find((tx) => tx.signature === signature);
+        return processed ? {
+          slot: processed.slot,
+          confirmations: null,
+          err: processed.err,
+          confirmationStatus: 'finalized' as const,
+        } : null;
+      }),
+    };
+  }
+
+  // only the slot and meta of the transaction, which is all the journal reads
+  async getTransaction(signature: string): Promise<any> {
+    const processed = this.transactions.find((tx) => tx.signature === signature);
+    return processed ? { slot: processed.slot, meta: processed.meta } : null;
+  }
+
+  onProgramAccountChange(
+    programId: PublicKey,
+    callback: (keyedAccountInfo: KeyedAccountInfo, context: { slot: number }) => void,
+    commitment?: any,
+    filters: any[] = [],
+  ) {
+    this.nextListenerId += 1;
+    this.listeners.set(this.nextListenerId, { programId, filters, callback });
+    return this.nextListenerId;
+  }
+
+  async removeProgramAccountChangeListener(id: number) {
+    this.listeners.delete(id);
+  }
+
+  // ---- execution
+
+  // Lamports are only moved for accounts that are part of the fixtures, e.g. the payer's
+  private debitLamports(address: PublicKey, lamports: number) {
+    const account = this.accounts.get(address.toBase58());
+    if (account) {
+      this.accounts.set(address.toBase58(), { ...account, lamports: account.lamports - lamports });
+    }
+  }
+
+  private commit(accounts: Map<string, AccountInfo<Buffer>>, changed: Set<string>) {
+    this.accounts = accounts;
+    changed.forEach((address) => {
+      const account = accounts.get(address)!;
+      this.listeners.forEach(({ programId, filters, callback }) => {
+        if (account.owner.equals(programId) && filters.every((filter) => matchesFilter(account.data, filter))) {
+          callback({ accountId: new PublicKey(address), accountInfo: account }, { slot: this.slot });
+        }
+      });
+    });
+  }
+
+  // Runs the transaction against a copy of the accounts
+  private execute(transaction: VersionedTransaction) {
+    const { message } = transaction;
+    const addressLookupTableAccounts = message.addressTableLookups.map((lookup) => {
+      const table = this.lookupTables.get(lookup.accountKey.toBase58());
+      if (!table) {
+        throw new Error(`unknown lookup table ${lookup.accountKey.toBase58()}`);
+      }
+      return table;
+    });
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts });
+    const instructions = message.compiledInstructions.map((instruction) => ({
+      programId: accountKeys.get(instruction.programIdIndex)!,
+      keys: instruction.accountKeyIndexes.map((index) => accountKeys.get(index)!),
+      data: Buffer.from(instruction.data),
+    }));
+
+    const execution: Execution = {
+      accounts: new Map(this.accounts),
+      refreshed: new Set(),
+      changed: new Set(),
+      logs: [],
+    };
+    let err: TransactionError | null = null;
+    let errorMessage = '';
+    try {
+      instructions.forEach((instruction, index) => {
+        execution.logs.push(`Program ${instruction.programId.toBase58()} invoke [1]`);
+        this.executeInstruction(execution, index, instruction.programId, instruction.keys, instruction.data);
+        execution.logs.push(`Program ${instruction.programId.toBase58()} success`);
+      });
+    } catch (e) {
+      if (!(e instanceof InstructionFailure)) {
+        throw e;
+      }
+      err = e.error;
+      errorMessage = e.message;
+    }
+    return {
+      ...execution,
+      accountKeys: accountKeys.keySegments().reduce((keys, segment) => keys.concat(segment), []),
+      instructions,
+      err,
+      message: errorMessage,
+    };
+  }
+
+  private executeInstruction(
+    execution: Execution,
+    index: number,
+    programId: PublicKey,
+    keys: PublicKey[],
+    data: Buffer,
+  ) {
+    if (programId.equals(ComputeBudgetProgram.programId)) {
+      return;
+    }
+    if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      // payer, associated account, owner, mint
+      const [payer, address, owner, mint] = keys;
+      if (execution.accounts.has(address.toBase58())) {
+        this.fail(execution, index, programId, 'InvalidAccountData', `account ${address.toBase58()} already in use`);
+      }
+      // as with the fee, the payer only pays for the account when it is part of the fixtures
+      const payerAccount = execution.accounts.get(payer.toBase58());
+      if (payerAccount) {
+        this.write(execution, payer, {
+          ...payerAccount,
+          lamports: payerAccount.lamports - RENT_EXEMPT_TOKEN_ACCOUNT_LAMPORTS,
+        });
+      }
+      this.write(execution, address, {
+        executable: false,
+        lamports: RENT_EXEMPT_TOKEN_ACCOUNT_LAMPORTS,
+        owner: TOKEN_PROGRAM_ID,
+        rentEpoch: 0,
+        data: encodeTokenAccount(mint, owner, 0),
+      });
+      return;
+    }
+    if (!programId.equals(new PublicKey(getProgramIdForCurrentDeployment()))) {
+      this.fail(execution, index, programId, 'UnsupportedProgramId', `unsupported program ${programId.toBase58()}`);
+    }
+
+    switch (data[0]) {
+      case LendingInstruction.RefreshReserve:
+        this.refreshReserve(execution, index, keys[0]);
+        break;
+      case LendingInstruction.RefreshObligation:
+        this.refreshObligation(execution, index, keys);
+        break;
+      case LendingInstruction.LiquidateObligation:
+        this.liquidate(execution, index, keys, data, false);
+        break;
+      case LendingInstruction.LiquidateObligationAndRedeemReserveCollateral:
+        this.liquidate(execution, index, keys, data, true);
+        break;
+      default:
+        this.failLending(execution, index, LendingError.InstructionUnpackError);
+    }
+  }
+
+  private fail(
+    execution: Execution,
+    index: number,
+    programId: PublicKey,
+    error: { Custom: number } | string,
+    message: string,
+  ): never {
+    const code = typeof error === 'string' ? error : `custom program error: 0x${error.Custom.toString(16)}`;
+    execution.logs.push(`Program log: Error: ${message}`);
+    execution.logs.push(`Program ${programId.toBase58()} failed: ${code}`);
+    throw new InstructionFailure(index, error, `Error processing Instruction ${index}: ${code}`);
+  }
+
+  private failLending(execution: Execution, index: number, error: LendingError): never {
+    return this.fail(
+      execution,
+      index,
+      new PublicKey(getProgramIdForCurrentDeployment()),
+      { Custom: error },
+      LendingError[error],
+    );
+  }
+
+  private write(execution: Execution, address: PublicKey, account: AccountInfo<Buffer>) {
+    execution.accounts.set(address.toBase58(), account);
+    execution.changed.add(address.toBase58());
+  }
+
+  private read(execution: Execution, index: number, address: PublicKey) {
+    const account = execution.accounts.get(address.toBase58());
+    if (!account) {
+      this.failLending(execution, index, LendingError.InvalidAccountInput);
+    }
+    return account;
+  }
+
+  private refreshReserve(execution: Execution, index: number, address: PublicKey) {
+    const account = this.read(execution, index, address);
+    const reserve: any = ReserveLayout.decode(account.data);
+    const oracle = this.tokensOracle.find((token) => token.reserveAddress === address.toBase58());
+    if (oracle) {
+      reserve.liquidityMarketPrice = toBN(oracle.price.multipliedBy(WAD));
+      if (reserve.liquiditySmoothedMarketPrice) {
+        reserve.liquiditySmoothedMarketPrice = toBN(oracle.smoothedPrice.multipliedBy(WAD));
+      }
+    }
+    reserve.lastUpdate = { slot: new BN(this.slot + 1), stale: 0 };
+    const data = Buffer.from(account.data);
+    ReserveLayout.encode(reserve, data);
+    this.write(execution, address, { ...account, data });
+    execution.refreshed.add(address.toBase58());
+  }
+
+  private refreshObligation(execution: Execution, index: number, keys: PublicKey[]) {
+    const [address, , ...reserves] = keys;
+    const account = this.read(execution, index, address);
+    const obligation = decodeObligation(account.data);
+    const expected = [
+      ...obligation.deposits.map((deposit) => deposit.depositReserve),
+      ...obligation.borrows.map((borrow) => borrow.borrowReserve),
+    ];
+    if (reserves.length !== expected.length
+      || reserves.some((reserve, i) => !reserve.equals(expected[i]))) {
+      this.failLending(execution, index, LendingError.InvalidAccountInput);
+    }
+    if (reserves.some((reserve) => !execution.refreshed.has(reserve.toBase58()))) {
+      this.failLending(execution, index, LendingError.ReserveStale);
+    }
+    obligation.proto.lastUpdate = { slot: new BN(this.slot + 1), stale: 0 };
+    this.write(execution, address, { ...account, data: encodeObligation(account.data, obligation) });
+    execution.refreshed.add(address.toBase58());
+  }
+
+  private adjustTokenAccount(
+    execution: Execution,
+    index: number,
+    address: PublicKey,
+    change: BN,
+    mint?: PublicKey,
+  ) {
+    const account = this.read(execution, index, address);
+    if (mint && !getTokenMint(account.data).equals(mint)) {
+      this.failLending(execution, index, LendingError.InvalidTokenMint);
+    }
+    const amount = getTokenAmount(account.data).add(change);
+    if (amount.isNeg()) {
+      this.fail(execution, index, TOKEN_PROGRAM_ID, { Custom: TOKEN_INSUFFICIENT_FUNDS }, 'insufficient funds');
+    }
+    const data = Buffer.from(account.data);
+    amount.toArrayLike(Buffer, 'le', 8).copy(data, TOKEN_ACCOUNT_AMOUNT_OFFSET);
+    this.write(execution, address, { ...account, data });
+  }
+
+  // Reserve supply accounts are moved when they are part of the fixtures, and ignored otherwise
+  private adjustSupplyAccount(execution: Execution, index: number, address: PublicKey, change: BN) {
+    if (execution.accounts.has(address.toBase58())) {
+      this.adjustTokenAccount(execution, index, address, change);
+    }
+  }
+
+  private updateReserve(execution: Execution, index: number, address: PublicKey, update: (reserve: any) => void) {
+    const account = this.read(execution, index, address);
+    const reserve: any = ReserveLayout.decode(account.data);
+    update(reserve);
+    const data = Buffer.from(account.data);
+    ReserveLayout.encode(reserve, data);
+    this.write(execution, address, { ...account, data });
+  }
+
+  private liquidate(
+    execution: Execution,
+    index: number,
+    keys: PublicKey[],
+    data: Buffer,
+    redeem: boolean,
+  ) {
+    const liquidityAmount = new BigNumber(new BN(data.slice(1, 9), 'le').toString());
+    const [sourceLiquidity, destinationCollateral] = keys;
+    const destinationLiquidity = redeem ? keys[2] : undefined;
+    const [
+      repayReserveAddress,
+      repayReserveLiquiditySupply,
+      withdrawReserveAddress,
+    ] = redeem ? keys.slice(3, 6) : keys.slice(2, 5);
+    const withdrawReserveCollateralSupply = redeem ? keys[7] : keys[5];
+    const withdrawReserveLiquiditySupply = redeem ? keys[8] : undefined;
+    const withdrawReserveFeeReceiver = redeem ? keys[9] : undefined;
+    const obligationAddress = redeem ? keys[10] : keys[6];
+    const transferAuthority = redeem ? keys[13] : keys[9];
+
+    [repayReserveAddress, withdrawReserveAddress, obligationAddress].forEach((address) => {
+      if (!execution.refreshed.has(address.toBase58())) {
+        this.failLending(
+          execution,
+          index,
+          address.equals(obligationAddress) ? LendingError.ObligationStale : LendingError.ReserveStale,
+        );
+      }
+    });
+
+    const reserves = [repayReserveAddress, withdrawReserveAddress]
+      .map((address) => parseReserve(address, this.read(execution, index, address)));
+    const [repayReserve, withdrawReserve] = reserves;
+    if (!repayReserve.info.liquidity.supplyPubkey.equals(repayReserveLiquiditySupply)
+      || !withdrawReserve.info.collateral.supplyPubkey.equals(withdrawReserveCollateralSupply)
+      || (withdrawReserveLiquiditySupply
+        && !withdrawReserve.info.liquidity.supplyPubkey.equals(withdrawReserveLiquiditySupply))) {
+      this.failLending(execution, index, LendingError.InvalidAccountInput);
+    }
+    const source = this.read(execution, index, sourceLiquidity);
+    if (!getTokenOwner(source.data).equals(transferAuthority)) {
+      this.failLending(execution, index, LendingError.InvalidTokenOwner);
+    }
+
+    const obligationAccount = this.read(execution, index, obligationAddress);
+    const obligation = parseObligation(obligationAddress, obligationAccount)!;
+    const allReserves = obligation.info.deposits.map((deposit) => deposit.depositReserve)
+      .concat(obligation.info.borrows.map((borrow) => borrow.borrowReserve))
+      .map((address) => parseReserve(address, this.read(execution, index, address)));
+    const refreshedObligation = calculateRefreshedObligation(
+      obligation.info,
+      allReserves,
+      this.tokensOracle,
+    );
+    if (!isObligationUnhealthy(refreshedObligation)) {
+      this.failLending(execution, index, LendingError.ObligationHealthy);
+    }
+    const borrow = refreshedObligation.borrows.find((b) => b.borrowReserve.equals(repayReserveAddress));
+    if (!borrow) {
+      this.failLending(execution, index, LendingError.InvalidObligationLiquidity);
+    }
+    const deposit = refreshedObligation.deposits.find((d) => d.depositReserve.equals(withdrawReserveAddress));
+    if (!deposit) {
+      this.failLending(execution, index, LendingError.InvalidObligationCollateral);
+    }
+    const amount = calculateLiquidationAmount(
+      borrow,
+      deposit,
+      withdrawReserve.info,
+      liquidityAmount,
+      repayReserveAddress.equals(withdrawReserveAddress),
+    );
+    if (!amount || amount.repayAmount.isZero()) {
+      this.failLending(execution, index, LendingError.LiquidationTooSmall);
+    }
+
+    const repayAmount = toBN(amount.repayAmount);
+    const settleAmountWads = toBN(amount.settleAmountWads);
+    const withdrawCollateralAmount = toBN(amount.withdrawCollateralAmount);
+
+    this.adjustTokenAccount(
+      execution,
+      index,
+      sourceLiquidity,
+      repayAmount.neg(),
+      repayReserve.info.liquidity.mintPubkey,
+    );
+    this.adjustSupplyAccount(execution, index, repayReserveLiquiditySupply, repayAmount);
+    this.updateReserve(execution, index, repayReserveAddress, (reserve) => {
+      reserve.liquidityAvailableAmount = reserve.liquidityAvailableAmount.add(repayAmount);
+      reserve.liquidityBorrowedAmountWads = BN.max(
+        reserve.liquidityBorrowedAmountWads.sub(settleAmountWads),
+        new BN(0),
+      );
+    });
+
+    const decoded = decodeObligation(obligationAccount.data);
+    decoded.borrows = decoded.borrows
+      .map((liquidity) => (liquidity.borrowReserve.equals(repayReserveAddress)
+        ? { ...liquidity, borrowedAmountWads: liquidity.borrowedAmountWads.sub(settleAmountWads) }
+        : liquidity))
+      .filter((liquidity) => liquidity.borrowedAmountWads.gtn(0));
+    decoded.deposits = decoded.deposits
+      .map((collateral) => (collateral.depositReserve.equals(withdrawReserveAddress)
+        ? { ...collateral, depositedAmount: collateral.depositedAmount.sub(withdrawCollateralAmount) }
+        : collateral))
+      .filter((collateral) => collateral.depositedAmount.gtn(0));
+    // the program marks the obligation stale after a liquidation
+    decoded.proto.lastUpdate = { ...decoded.proto.lastUpdate, stale: 1 };
+    this.write(execution, obligationAddress, {
+      ...obligationAccount,
+      data: encodeObligation(obligationAccount.data, decoded),
+    });
+    this.adjustSupplyAccount(execution, index, withdrawReserveCollateralSupply, withdrawCollateralAmount.neg());
+
+    if (!destinationLiquidity || !withdrawReserveLiquiditySupply || !withdrawReserveFeeReceiver) {
+      this.adjustTokenAccount(
+        execution,
+        index,
+        destinationCollateral,
+        withdrawCollateralAmount,
+        withdrawReserve.info.collateral.mintPubkey,
+      );
+      return;
+    }
+
+    const withdrawLiquidityAmount = toBN(amount.withdrawLiquidityAmount);
+    const protocolFee = toBN(amount.protocolFee);
+    const redeemedLiquidityAmount = withdrawLiquidityAmount.add(protocolFee);
+    const available = parseReserve(withdrawReserveAddress, this.read(execution, index, withdrawReserveAddress))
+      .info.liquidity.availableAmount;
+    if (available.lt(redeemedLiquidityAmount)) {
+      this.failLending(execution, index, LendingError.InsufficientLiquidity);
+    }
+    this.updateReserve(execution, index, withdrawReserveAddress, (reserve) => {
+      reserve.liquidityAvailableAmount = reserve.liquidityAvailableAmount.sub(redeemedLiquidityAmount);
+      reserve.collateralMintTotalSupply = reserve.collateralMintTotalSupply.sub(withdrawCollateralAmount);
+    });
+    this.adjustSupplyAccount(execution, index, withdrawReserveLiquiditySupply, redeemedLiquidityAmount.neg());
+    this.adjustSupplyAccount(execution, index, withdrawReserveFeeReceiver, protocolFee);
+    this.adjustTokenAccount(
+      execution,
+      index,
+      destinationLiquidity,
+      withdrawLiquidityAmount,
+      withdrawReserve.info.liquidity.mintPubkey,
+    );
+  }
+}
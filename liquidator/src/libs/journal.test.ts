@@ -0,0 +1,56 @@
+import { aggregatePnL, formatPnLCSV, JournalRecord } from './journal';
+
+const record = (
+  outcome: JournalRecord['outcome'],
+  { withdrawSymbol = 'SOL', realizedProfit = null as string | null, transactionFeeUSD = null as string | null } = {},
+): JournalRecord => ({
+  event: 'liquidation',
+  timestamp: '2026-10-19T12:00:00.000Z',
+  market: 'market',
+  obligation: 'obligation',
+  repaySymbol: 'USDC',
+  withdrawSymbol,
+  repayAmount: '100000000',
+  withdrawAmount: '1050000000',
+  repayValue: '100.00',
+  withdrawValue: '105.00',
+  expectedProfit: '5.00',
+  realizedProfit: outcome === 'landed' ? realizedProfit : undefined,
+  prices: {},
+  flashLoan: false,
+  redeem: true,
+  outcome,
+  fees: {
+    maxPriorityFeeLamports: null,
+    transactionFeeLamports: null,
+    transactionFeeUSD,
+  },
+});
+
+describe('aggregatePnL', () => {
+  const records = [
+    record('landed', { realizedProfit: '4.50', transactionFeeUSD: '0.01' }),
+    record('landed', { withdrawSymbol: 'ETH' }),
+    record('failed', { transactionFeeUSD: '0.02' }),
+    record('expired'),
+    record('aborted'),
+  ];
+
+  it('counts every outcome, aborted attempts at no cost', () => {
+    expect(aggregatePnL(records, 'asset')).toEqual([
+      {
+        key: 'ETH', attempts: 1, landed: 1, failed: 0, expired: 0, aborted: 0, repaid: '100.00', fees: '0.00', pnl: '5.00',
+      },
+      {
+        key: 'SOL', attempts: 4, landed: 1, failed: 1, expired: 1, aborted: 1, repaid: '100.00', fees: '0.03', pnl: '4.48',
+      },
+    ]);
+  });
+
+  it('exports the rows as CSV', () => {
+    expect(formatPnLCSV(aggregatePnL(records, 'day'), 'day')).toBe(
+      'day,attempts,landed,failed,expired,aborted,repaid,fees,pnl\n'
+      + '2026-10-19,5,2,1,1,1,200.00,0.03,9.48\n',
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { Connection, TransactionSignature } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import fs from 'fs';
+import { findWhere } from 'underscore';
+import { getLogger } from './logger';
+import { TokenOracleData } from './oracle';
+import { RealizedLeg } from './realizedProfit';
+import { compareStrings } from './snapshot';
+
+const DEFAULT_LIQUIDATION_JOURNAL_FILE = 'liquidations.jsonl';
+const LAMPORTS_PER_SOL = 1000000000;
+
+const logger = getLogger('journal');
+
+// A liquidation given up on before its transaction was sent
+export type AbortedOutcome = {
+  status: 'aborted';
+  signature?: undefined;
+  error: string;
+};
+
+export type JournalRecord = {
+  event: 'liquidation';
+  timestamp: string;
+  market: string;
+  obligation: string;
+  repaySymbol: string;
+  withdrawSymbol: string;
+  // base units
+  repayAmount: string;
+  withdrawAmount: string;
+  // USD
+  repayValue: string;
+  withdrawValue: string;
+  expectedProfit: string;
+  // from the balance changes of the landed transaction, SOL fee and rent included, null when it
+  // couldn't be fetched
+  realizedProfit?: string | null;
+  realizedLegs?: RealizedLeg[];
+  // USD per token unit of the repay and withdraw tokens, and SOL, at decision time
+  prices: Record<string, string>;
+  flashLoan: boolean;
+  redeem: boolean;
+  // undefined when the transaction failed simulation or preflight, or was never sent
+  signature?: TransactionSignature;
+  outcome: 'landed' | 'failed' | 'expired' | 'aborted';
+  failureClass?: string;
+  error?: string;
+  fees: {
+    // cap on the priority fee, null when uncapped
+    maxPriorityFeeLamports: string | null;
+    // paid by the transaction, null when it isn't on chain or couldn't be fetched
+    transactionFeeLamports: number | null;
+    transactionFeeUSD: string | null;
+    // paid to create token accounts of the wallet
+    rentLamports?: number;
+  };
+};
+
+export type PnLGrouping = 'day' | 'market' | 'asset';
+
+export type PnLRow = {
+  key: string;
+  attempts: number;
+  landed: number;
+  failed: number;
+  expired: number;
+  aborted: number;
+  // USD
+  repaid: string;
+  fees: string;
+  pnl: string;
+};
+
+export function getJournalFile() {
+  return process.env.LIQUIDATION_JOURNAL_FILE || DEFAULT_LIQUIDATION_JOURNAL_FILE;
+}
+
+// Appends the record to the journal, one JSON object per line, so that it survives restarts and
+// can be read back by the report command
+export function appendJournalRecord(record: JournalRecord, file = getJournalFile()) {
+  try {
+    fs.appendFileSync(file, `${JSON.stringify(record)}\n`);
+  } catch (err) {
+    logger.error('failed to write liquidation to the journal', { file, error: err });
+  }
+}
+
+export function readJournal(file = getJournalFile()): JournalRecord[] {
+  return fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+// Meta of a transaction on chain, with its fee and balance changes. Best effort.
+export async function getTransactionMeta(
+  connection: Pick<Connection, 'getTransaction'>,
+  signature: TransactionSignature,
+) {
+  try {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    return tx?.meta || null;
+  } catch (err) {
+    logger.warn('failed to fetch transaction meta', { signature, error: err });
+    return null;
+  }
+}
+
+// USD value of lamports at the SOL oracle price, null without one
+export function getLamportsValue(lamports: number, tokensOracle: TokenOracleData[]) {
+  const solOracle: TokenOracleData | undefined = findWhere(tokensOracle, { symbol: 'SOL' });
+  if (!solOracle) {
+    return null;
+  }
+  return solOracle.price.multipliedBy(lamports).dividedBy(LAMPORTS_PER_SOL);
+}
+
+// Realized profit of landed liquidations, or the expected profit when it couldn't be computed,
+// less the fees of those that failed on chain
+export function getRecordPnL(record: JournalRecord) {
+  if (record.outcome === 'landed') {
+    return new BigNumber(record.realizedProfit ?? record.expectedProfit);
+  }
+  return new BigNumber(record.fees.transactionFeeUSD || 0).negated();
+}
+
+const getGroupKey = (record: JournalRecord, grouping: PnLGrouping) => {
+  switch (grouping) {
+    case 'day':
+      return record.timestamp.slice(0, 10);
+    case 'market':
+      return record.market;
+    default:
+      // the collateral seized
+      return record.withdrawSymbol;
+  }
+};
+
+export function aggregatePnL(records: JournalRecord[], grouping: PnLGrouping): PnLRow[] {
+  const groups = new Map<string, JournalRecord[]>();
+  records.forEach((record) => {
+    const key = getGroupKey(record, grouping);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+  return [...groups.keys()].sort(compareStrings).map((key) => {
+    const group = groups.get(key)!;
+    const sum = (value: (record: JournalRecord) => BigNumber.Value) => group
+      .reduce((total, record) => total.plus(value(record)), new BigNumber(0))
+      .toFixed(2);
+    const count = (outcome: JournalRecord['outcome']) => group.filter((record) => record.outcome === outcome).length;
+    return {
+      key,
+      attempts: group.length,
+      landed: count('landed'),
+      failed: count('failed'),
+      expired: count('expired'),
+      aborted: count('aborted'),
+      repaid: sum((record) => (record.outcome === 'landed' ? record.repayValue : 0)),
+      fees: sum((record) => record.fees.transactionFeeUSD || 0),
+      pnl: sum(getRecordPnL),
+    };
+  });
+}
+
+const COLUMNS: (keyof PnLRow)[] = ['key', 'attempts', 'landed', 'failed', 'expired', 'aborted', 'repaid', 'fees', 'pnl'];
+
+export function formatPnLReport(rows: PnLRow[], grouping: PnLGrouping) {
+  const lines = rows.map((row) => `${row.key} | ${row.attempts} attempts, ${row.landed} landed, ${row.failed} failed, ${row.expired} expired, ${row.aborted} aborted`
+    + ` | repaid $${row.repaid} | fees $${row.fees} | pnl $${row.pnl}`);
+  const total = rows.reduce((pnl, row) => pnl.plus(row.pnl), new BigNumber(0));
+  return [
+    ...lines,
+    `${rows.length} ${grouping === 'day' ? 'days' : `${grouping}s`}, pnl $${total.toFixed(2)}`,
+  ].join('\n');
+}
+
+const escapeCSV = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function formatPnLCSV(rows: PnLRow[], grouping: PnLGrouping) {
+  return [
+    [grouping, ...COLUMNS.slice(1)].join(','),
+    ...rows.map((row) => COLUMNS.map((column) => escapeCSV(row[column])).join(',')),
+  ].join('\n').concat('\n');
+}
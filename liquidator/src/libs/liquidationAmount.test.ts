@@ -0,0 +1,118 @@
+import { PublicKey } from '@solana/web3.js';
+import { Reserve } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { calculateLiquidationAmount } from './liquidationAmount';
+import { Borrow, Deposit, getMaxLiquidationAmountWads } from './refreshObligation';
+import { WAD } from './utils';
+
+// A USDC borrow, in base units with and without interest, valued at $1 a token
+const usdcBorrow = (borrowedAmount: BigNumber.Value, borrowedAmountWithInterest = borrowedAmount): Borrow => {
+  const borrowAmountWadsWithInterest = new BigNumber(borrowedAmountWithInterest).multipliedBy(WAD);
+  const marketValue = new BigNumber(borrowedAmountWithInterest).dividedBy(10 ** 6);
+  return {
+    borrowReserve: new PublicKey(2),
+    borrowAmountWads: new BN(new BigNumber(borrowedAmount).multipliedBy(WAD).toFixed()),
+    borrowAmountWadsWithInterest,
+    marketValue,
+    mintAddress: 'USDC',
+    symbol: 'USDC',
+    addedBorrowWeightBPS: new BN(0),
+    maxLiquidationAmountWads: getMaxLiquidationAmountWads(
+      { marketValue, borrowAmountWadsWithInterest },
+      marketValue,
+    ),
+  };
+};
+
+// 20 SOL of collateral at $100
+const solDeposit: Deposit = {
+  depositReserve: new PublicKey(1),
+  depositAmount: new BN(20000000000),
+  marketValue: new BigNumber(2000),
+  symbol: 'SOL',
+};
+
+// The SOL reserve with a 5% bonus and a collateral exchange rate of 1
+const solReserve = (availableAmount: BigNumber.Value = 1000000000000, protocolLiquidationFee = 0) => ({
+  config: { liquidationBonus: 5, protocolLiquidationFee },
+  liquidity: {
+    availableAmount: new BN(new BigNumber(availableAmount).toFixed()),
+    borrowedAmountWads: new BN(0),
+  },
+  collateral: { mintTotalSupply: new BN(0) },
+} as unknown as Reserve);
+
+describe('calculateLiquidationAmount', () => {
+  it('repays at most the close factor of the borrow', () => {
+    const liquidation = calculateLiquidationAmount(usdcBorrow(1000000000), solDeposit, solReserve(), undefined)!;
+
+    // 20% of 1000 USDC, for 210 USD of SOL
+    expect(liquidation.closeOut).toBe(false);
+    expect(liquidation.repayAmount.toString()).toBe('200000000');
+    expect(liquidation.withdrawCollateralAmount.toString()).toBe('2100000000');
+    expect(liquidation.repayValue.toString()).toBe('200');
+
+    // the wallet balance is a lower bound
+    const walletBound = calculateLiquidationAmount(
+      usdcBorrow(1000000000),
+      solDeposit,
+      solReserve(),
+      new BigNumber(50000000),
+    )!;
+    expect(walletBound.repayAmount.toString()).toBe('50000000');
+    expect(walletBound.withdrawCollateralAmount.toString()).toBe('525000000');
+  });
+
+  it('takes a cut of the bonus as protocol fee, and at least one base unit', () => {
+    const withFee = calculateLiquidationAmount(usdcBorrow(1000000000), solDeposit, solReserve(undefined, 30), undefined)!;
+    // 3% of the 0.1 SOL bonus
+    expect(withFee.protocolFee.toString()).toBe('3000000');
+    expect(withFee.withdrawLiquidityAmount.toString()).toBe('2097000000');
+
+    const withoutFee = calculateLiquidationAmount(usdcBorrow(1000000000), solDeposit, solReserve(), undefined)!;
+    expect(withoutFee.protocolFee.toString()).toBe('1');
+    expect(withoutFee.withdrawLiquidityAmount.toString()).toBe('2099999999');
+  });
+
+  it('closes out dust borrows in full', () => {
+    const liquidation = calculateLiquidationAmount(usdcBorrow('1.5'), solDeposit, solReserve(), undefined)!;
+
+    expect(liquidation.closeOut).toBe(true);
+    expect(liquidation.settleAmountWads.toString()).toBe(new BigNumber('1.5').multipliedBy(WAD).toString());
+    expect(liquidation.repayAmount.toString()).toBe('2');
+    expect(liquidation.withdrawCollateralAmount.toString()).toBe('15');
+    expect(liquidation.withdrawLiquidityAmount.toString()).toBe('14');
+  });
+
+  it('liquidates the borrow with its accrued interest', () => {
+    // 1000 USDC borrowed, 1100 owed
+    const liquidation = calculateLiquidationAmount(
+      usdcBorrow(1000000000, 1100000000),
+      solDeposit,
+      solReserve(),
+      undefined,
+    )!;
+
+    expect(liquidation.repayAmount.toString()).toBe('220000000');
+    expect(liquidation.withdrawCollateralAmount.toString()).toBe('2310000000');
+
+    // interest pushes a dust borrow past the close out threshold
+    expect(calculateLiquidationAmount(usdcBorrow(1, 3), solDeposit, solReserve(), undefined)?.closeOut)
+      .toBe(false);
+  });
+
+  it('repays less when the withdraw reserve cannot redeem the collateral', () => {
+    // 1 SOL available to redeem, 2.1 SOL needed
+    const liquidation = calculateLiquidationAmount(usdcBorrow(1000000000), solDeposit, solReserve(1000000000), undefined)!;
+
+    const redeemed = liquidation.withdrawLiquidityAmount.plus(liquidation.protocolFee);
+    expect(redeemed.isLessThanOrEqualTo(1000000000)).toBe(true);
+    expect(redeemed.isGreaterThan(990000000)).toBe(true);
+    expect(liquidation.repayAmount.isLessThan(100000000)).toBe(true);
+
+    // nothing to redeem
+    expect(calculateLiquidationAmount(usdcBorrow(1000000000), solDeposit, solReserve(0), undefined))
+      .toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+import { Reserve } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import {
+  Borrow,
+  Deposit,
+  LIQUIDATION_CLOSE_AMOUNT,
+} from './refreshObligation';
+import {
+  getCollateralExchangeRate,
+  percentToWad,
+  toWad,
+  WAD,
+  wadDiv,
+  wadMul,
+} from './utils';
+
+export type LiquidationAmount = {
+  // liquidity transferred from the wallet, in repay token base units
+  repayAmount: BigNumber;
+  // borrowed wads settled by the repayment
+  settleAmountWads: BigNumber;
+  // collateral seized from the obligation, in withdraw reserve collateral base units
+  withdrawCollateralAmount: BigNumber;
+  // liquidity the seized collateral redeems for, after the protocol fee, in withdraw token base units
+  withdrawLiquidityAmount: BigNumber;
+  protocolFee: BigNumber;
+  repayValue: BigNumber;
+  withdrawValue: BigNumber;
+  expectedProfit: BigNumber;
+  // true when the borrow is dust and is closed out in full regardless of the close factor
+  closeOut: boolean;
+};
+
+const ceilWad = (value: BigNumber) => value.dividedBy(WAD).integerValue(BigNumber.ROUND_CEIL);
+
+const floorWad = (value: BigNumber) => value.dividedToIntegerBy(WAD);
+
+// Mirrors Reserve::calculate_liquidation followed by the redeem and protocol fee of
+// LiquidateObligationAndRedeemReserveCollateral. amountToLiquidate is in repay token base
+// units, undefined meaning u64::MAX.
+function calculateLiquidation(
+  borrow: Borrow,
+  deposit: Deposit,
+  withdrawReserve: Reserve,
+  amountToLiquidate: BigNumber | undefined,
+): LiquidationAmount {
+  const borrowedWads = borrow.borrowAmountWadsWithInterest;
+  const borrowValue = toWad(borrow.marketValue);
+  const collateralValue = toWad(deposit.marketValue);
+  const depositedAmount = new BigNumber(deposit.depositAmount.toString());
+  const bonusRate = WAD.plus(percentToWad(withdrawReserve.config.liquidationBonus));
+
+  let settleAmountWads: BigNumber;
+  let liquidationValue: BigNumber;
+  const closeOut = borrowedWads.isLessThan(toWad(LIQUIDATION_CLOSE_AMOUNT));
+  if (closeOut) {
+    settleAmountWads = borrowedWads;
+    liquidationValue = wadMul(borrowValue, bonusRate);
+  } else {
+    const maxAmount = amountToLiquidate === undefined
+      ? borrowedWads
+      : BigNumber.min(toWad(amountToLiquidate), borrowedWads);
+    settleAmountWads = BigNumber.min(maxAmount, borrow.maxLiquidationAmountWads);
+    const repayValue = wadMul(borrowValue, wadDiv(settleAmountWads, borrowedWads));
+    liquidationValue = wadMul(repayValue, bonusRate);
+  }
+
+  let withdrawCollateralAmount: BigNumber;
+  switch (liquidationValue.comparedTo(collateralValue)) {
+    case 1: {
+      // the collateral can't cover the bonus, so less is settled for all of it
+      settleAmountWads = wadMul(settleAmountWads, wadDiv(collateralValue, liquidationValue));
+      withdrawCollateralAmount = depositedAmount;
+      break;
+    }
+    case 0: {
+      withdrawCollateralAmount = depositedAmount;
+      break;
+    }
+    default: {
+      withdrawCollateralAmount = floorWad(
+        wadMul(toWad(depositedAmount), wadDiv(liquidationValue, collateralValue)),
+      );
+    }
+  }
+
+  const redeemedLiquidityAmount = floorWad(
+    wadDiv(toWad(withdrawCollateralAmount), getCollateralExchangeRate(withdrawReserve)),
+  );
+  // Reserve::calculate_protocol_liquidation_fee: a cut of the bonus part, in deca bps, and at
+  // least one base unit even when the reserve's fee is zero
+  const redeemedLiquidityWads = toWad(redeemedLiquidityAmount);
+  const protocolFee = BigNumber.max(ceilWad(wadMul(
+    redeemedLiquidityWads.minus(wadDiv(redeemedLiquidityWads, bonusRate)),
+    new BigNumber(withdrawReserve.config.protocolLiquidationFee || 0)
+      .multipliedBy(WAD)
+      .dividedToIntegerBy(1000),
+  )), 1);
+  const withdrawLiquidityAmount = redeemedLiquidityAmount.minus(protocolFee);
+
+  const repayValue = borrow.marketValue
+    .multipliedBy(settleAmountWads)
+    .dividedBy(borrowedWads);
+  const withdrawValue = depositedAmount.isZero() || redeemedLiquidityAmount.isZero()
+    ? new BigNumber(0)
+    : deposit.marketValue
+      .multipliedBy(withdrawCollateralAmount)
+      .dividedBy(depositedAmount)
+      .multipliedBy(withdrawLiquidityAmount)
+      .dividedBy(redeemedLiquidityAmount);
+
+  return {
+    repayAmount: ceilWad(settleAmountWads),
+    settleAmountWads,
+    withdrawCollateralAmount,
+    withdrawLiquidityAmount,
+    protocolFee,
+    repayValue,
+    withdrawValue,
+    expectedProfit: withdrawValue.minus(repayValue),
+    closeOut,
+  };
+}
+
+// Computes the exact amount to repay when liquidating borrow against deposit. The amount is
+// bounded by the close factor, by maxRepayAmount (e.g. the wallet balance, in base units) and
+// by what the withdraw reserve can redeem. Returns undefined when nothing can be liquidated.
+export function calculateLiquidationAmount(
+  borrow: Borrow,
+  deposit: Deposit,
+  withdrawReserve: Reserve,
+  maxRepayAmount?: BigNumber,
+  // true when the repay and withdraw reserves are the same, so the repayment is available to redeem
+  sameReserve = false,
+): LiquidationAmount | undefined {
+  if (borrow.borrowAmountWadsWithInterest.isZero() || deposit.marketValue.isZero()) {
+    return undefined;
+  }
+
+  let liquidation = calculateLiquidation(borrow, deposit, withdrawReserve, maxRepayAmount);
+  const availableAmount = (amount: LiquidationAmount) => new BigNumber(
+    withdrawReserve.liquidity.availableAmount.toString(),
+  ).plus(sameReserve ? amount.repayAmount : 0);
+
+  // scale the repayment down until the withdraw reserve has enough liquidity to redeem
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const available = availableAmount(liquidation);
+    const redeemed = liquidation.withdrawLiquidityAmount.plus(liquidation.protocolFee);
+    if (redeemed.isLessThanOrEqualTo(available) || liquidation.closeOut) {
+      break;
+    }
+    const cappedRepayAmount = liquidation.repayAmount
+      .multipliedBy(available)
+      .dividedToIntegerBy(redeemed)
+      .minus(attempt);
+    if (cappedRepayAmount.isLessThanOrEqualTo(0)) {
+      return undefined;
+    }
+    liquidation = calculateLiquidation(borrow, deposit, withdrawReserve, cappedRepayAmount);
+  }
+
+  if (
+    liquidation.repayAmount.isZero()
+    || liquidation.withdrawCollateralAmount.isZero()
+    || liquidation.withdrawLiquidityAmount.isLessThanOrEqualTo(0)
+    || liquidation.withdrawLiquidityAmount
+      .plus(liquidation.protocolFee)
+      .isGreaterThan(availableAmount(liquidation))
+    || (maxRepayAmount && liquidation.repayAmount.isGreaterThan(maxRepayAmount))
+  ) {
+    return undefined;
+  }
+
+  return liquidation;
+}
@@ -0,0 +1,40 @@
+import { SendTransactionError } from '@solana/web3.js';
+import { getLogger } from './logger';
+
+// the JSON line of an error logged with the given fields
+const logError = (fields: Record<string, any>) => {
+  const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  try {
+    getLogger('test').error('failed', fields);
+    expect(write).toHaveBeenCalledTimes(1);
+    return JSON.parse(String(write.mock.calls[0][0]));
+  } finally {
+    write.mockRestore();
+  }
+};
+
+describe('Logger', () => {
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'info';
+  });
+
+  it('serializes errors with the logs of failed transactions', () => {
+    const { error } = logError({
+      error: new SendTransactionError({
+        action: 'send',
+        signature: '',
+        transactionMessage: 'Transaction simulation failed',
+        logs: ['Program log: Error: Obligation healthy'],
+      }),
+    });
+
+    expect(error.message).toMatch(/Transaction simulation failed/);
+    expect(error.logs).toEqual(['Program log: Error: Obligation healthy']);
+  });
+
+  it('leaves out the logs of other errors', () => {
+    const { error } = logError({ error: Object.assign(new Error('failed'), { logs: ['not a transaction'] }) });
+
+    expect(error).toEqual({ name: 'Error', message: 'failed', stack: expect.any(String) });
+  });
+});
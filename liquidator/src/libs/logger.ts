@@ -0,0 +1,128 @@
+import { SendTransactionError } from '@solana/web3.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+// fields, e.g. correlation IDs, attached to every message logged within withLogContext
+const logContext = new AsyncLocalStorage<LogFields>();
+
+const parseLevel = (level: string | undefined, fallback: LogLevel): LogLevel => {
+  if (level === undefined) {
+    return fallback;
+  }
+  if (!LEVELS.includes(level as LogLevel)) {
+    throw new Error(`Unrecognized log level: ${level}. Must be debug, info, warn or error`);
+  }
+  return level as LogLevel;
+};
+
+// Reads LOG_LEVEL as the default and LOG_LEVELS as per module overrides in the format
+// "<module>:<level> ...", e.g. "sender:debug oracle:warn"
+export function getLogLevels() {
+  const defaultLevel = parseLevel(process.env.LOG_LEVEL, DEFAULT_LOG_LEVEL);
+  const modules: Record<string, LogLevel> = {};
+  (process.env.LOG_LEVELS || '').split(' ').forEach((entry) => {
+    const [module, level] = entry.split(':');
+    if (module) {
+      modules[module] = parseLevel(level, defaultLevel);
+    }
+  });
+  return { defaultLevel, modules };
+}
+
+let levels: ReturnType<typeof getLogLevels> | undefined;
+
+const isEnabled = (module: string, level: LogLevel) => {
+  if (!levels) {
+    levels = getLogLevels();
+  }
+  const threshold = levels.modules[module] || levels.defaultLevel;
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+};
+
+// Errors don't serialize to JSON on their own, the logs of failed transactions are kept
+const toJSON = (key: string, value: any) => {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value instanceof SendTransactionError && value.logs ? { logs: value.logs } : {}),
+    };
+  }
+  return value;
+};
+
+// Logs one JSON object per line. Messages should be a short constant description of the event,
+// with its details in fields, so that they can be searched and aggregated.
+export class Logger {
+  module: string;
+
+  fields: LogFields;
+
+  constructor(module: string, fields: LogFields = {}) {
+    this.module = module;
+    this.fields = fields;
+  }
+
+  // A logger that adds the given fields to every message
+  child(fields: LogFields) {
+    return new Logger(this.module, { ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!isEnabled(this.module, level)) {
+      return;
+    }
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      module: this.module,
+      msg: message,
+      ...logContext.getStore(),
+      ...this.fields,
+      ...fields,
+    }, toJSON);
+    if (level === 'warn' || level === 'error') {
+      process.stderr.write(`${line}\n`);
+    } else {
+      process.stdout.write(`${line}\n`);
+    }
+  }
+}
+
+export function getLogger(module: string) {
+  return new Logger(module);
+}
+
+export function newCorrelationId() {
+  return randomBytes(6).toString('hex');
+}
+
+// Runs fn with fields added to every message logged during it, including by the libs it calls,
+// on top of those of the enclosing contexts
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
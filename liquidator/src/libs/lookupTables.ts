@@ -0,0 +1,188 @@
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID, Token, TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  Account,
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import fs from 'fs';
+import { MarketConfig } from 'global';
+import { LiquidatorConnection } from './connection';
+import { getSenderConfig, sendTransaction } from './sender';
+import { buildTransaction } from './transaction';
+import { getProgramIdForCurrentDeployment } from './utils';
+
+const DEFAULT_LOOKUP_TABLES_FILE = 'lookup-tables.json';
+// a lookup table holds at most 256 addresses
+const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+// addresses that fit in one extend transaction
+const EXTEND_CHUNK_SIZE = 20;
+
+// Every address a liquidation in the market can reference apart from the obligation itself:
+// programs, sysvars, the market, its reserves and oracles, and the payer's token accounts.
+export async function getMarketAddresses(market: MarketConfig, payer: PublicKey) {
+  const addresses = [
+    getProgramIdForCurrentDeployment(),
+    TOKEN_PROGRAM_ID.toBase58(),
+    ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+    SystemProgram.programId.toBase58(),
+    SYSVAR_CLOCK_PUBKEY.toBase58(),
+    SYSVAR_RENT_PUBKEY.toBase58(),
+    market.address,
+    market.authorityAddress,
+  ];
+  for (const reserve of market.reserves) {
+    const [liquidityAccount, collateralAccount] = await Promise.all([
+      Token.getAssociatedTokenAddress(
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        TOKEN_PROGRAM_ID,
+        new PublicKey(reserve.liquidityToken.mint),
+        payer,
+      ),
+      Token.getAssociatedTokenAddress(
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        TOKEN_PROGRAM_ID,
+        new PublicKey(reserve.collateralMintAddress),
+        payer,
+      ),
+    ]);
+    addresses.push(
+      reserve.address,
+      reserve.liquidityAddress,
+      reserve.liquidityFeeReceiverAddress,
+      reserve.collateralMintAddress,
+      reserve.collateralSupplyAddress,
+      reserve.pythOracle,
+      reserve.switchboardOracle,
+      reserve.liquidityToken.mint,
+      liquidityAccount.toBase58(),
+      collateralAccount.toBase58(),
+    );
+  }
+  return [...new Set(addresses)].slice(0, MAX_LOOKUP_TABLE_ADDRESSES);
+}
+
+// market address => lookup table address, as kept in the lookup tables file
+function readTableAddresses(file: string): Record<string, string> {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+}
+
+// Fetches the lookup table the liquidator prepared for the market, without a payer. Undefined
+// when the market has none yet.
+export async function fetchMarketLookupTable(
+  connection: LiquidatorConnection,
+  market: MarketConfig,
+  file: string = process.env.LOOKUP_TABLES_FILE || DEFAULT_LOOKUP_TABLES_FILE,
+) {
+  const tableAddress = readTableAddresses(file)[market.address];
+  if (!tableAddress) {
+    return undefined;
+  }
+  const { value } = await connection.getAddressLookupTable(new PublicKey(tableAddress));
+  return value || undefined;
+}
+
+// Creates, extends and caches one address lookup table per market so liquidations of
+// obligations with many reserves fit in a v0 transaction. Table addresses are kept in
+// LOOKUP_TABLES_FILE so they are reused across restarts.
+export class LookupTableManager {
+  connection: LiquidatorConnection;
+
+  payer: Account;
+
+  file: string;
+
+  // market address => lookup table address
+  tableAddresses: Record<string, string> = {};
+
+  tables = new Map<string, AddressLookupTableAccount>();
+
+  constructor(
+    connection: LiquidatorConnection,
+    payer: Account,
+    file: string = process.env.LOOKUP_TABLES_FILE || DEFAULT_LOOKUP_TABLES_FILE,
+  ) {
+    this.connection = connection;
+    this.payer = payer;
+    this.file = file;
+    this.tableAddresses = readTableAddresses(file);
+  }
+
+  // Makes sure the market's lookup table exists and holds every address of the market
+  async prepare(market: MarketConfig) {
+    let tableAddress = this.tableAddresses[market.address];
+    if (!tableAddress) {
+      tableAddress = (await this.createTable()).toBase58();
+      this.tableAddresses[market.address] = tableAddress;
+      fs.writeFileSync(this.file, JSON.stringify(this.tableAddresses, null, 2));
+    }
+
+    let table = await this.fetchTable(tableAddress);
+    const known = new Set(table.state.addresses.map((address) => address.toBase58()));
+    const missing = (await getMarketAddresses(market, this.payer.publicKey))
+      .filter((address) => !known.has(address))
+      .slice(0, MAX_LOOKUP_TABLE_ADDRESSES - known.size);
+    for (let i = 0; i < missing.length; i += EXTEND_CHUNK_SIZE) {
+      await this.send(AddressLookupTableProgram.extendLookupTable({
+        lookupTable: table.key,
+        authority: this.payer.publicKey,
+        payer: this.payer.publicKey,
+        addresses: missing.slice(i, i + EXTEND_CHUNK_SIZE).map((address) => new PublicKey(address)),
+      }));
+    }
+    if (missing.length) {
+      table = await this.fetchTable(tableAddress);
+    }
+
+    this.tables.set(market.address, table);
+    return table;
+  }
+
+  // Cached lookup table of the market, undefined when it hasn't been prepared
+  getLookupTable(market: MarketConfig) {
+    return this.tables.get(market.address);
+  }
+
+  async createTable() {
+    const recentSlot = await this.connection.getSlot('finalized');
+    const [createIx, tableAddress] = AddressLookupTableProgram.createLookupTable({
+      authority: this.payer.publicKey,
+      payer: this.payer.publicKey,
+      recentSlot,
+    });
+    await this.send(createIx);
+    return tableAddress;
+  }
+
+  async fetchTable(tableAddress: string) {
+    const { value } = await this.connection.getAddressLookupTable(new PublicKey(tableAddress));
+    if (!value) {
+      throw new Error(`lookup table ${tableAddress} not found`);
+    }
+    return value;
+  }
+
+  async send(ix: TransactionInstruction) {
+    const { transaction, lastValidBlockHeight } = await buildTransaction(
+      this.connection,
+      this.payer,
+      [ix],
+    );
+    // the table is fetched right after, so wait for finalization
+    const outcome = await sendTransaction(
+      this.connection,
+      transaction.serialize(),
+      lastValidBlockHeight,
+      { ...getSenderConfig(), commitment: 'finalized' },
+    );
+    if (outcome.status !== 'landed') {
+      throw new Error(`lookup table transaction ${outcome.status}: ${JSON.stringify(outcome)}`);
+    }
+  }
+}
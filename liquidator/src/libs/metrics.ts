@@ -0,0 +1,254 @@
+import { Connection } from '@solana/web3.js';
+import http from 'http';
+import { getLogger } from './logger';
+
+const logger = getLogger('metrics');
+
+type Labels = Record<string, string>;
+
+// seconds
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const EPOCH_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600];
+
+const escapeLabelValue = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/"/g, '\\"')
+  .replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.keys(labels).sort().map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+const labelsKey = (labels: Labels) => formatLabels(labels);
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples(): string[];
+}
+
+export class Counter implements Metric {
+  type = 'counter' as const;
+
+  values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(public name: string, public help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelsKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value || 0) + value });
+  }
+
+  samples() {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Gauge implements Metric {
+  type = 'gauge' as const;
+
+  values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(public name: string, public help: string) {}
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelsKey(labels), { labels, value });
+  }
+
+  samples() {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram implements Metric {
+  type = 'histogram' as const;
+
+  values = new Map<string, {
+    labels: Labels;
+    // per bucket, not cumulative
+    counts: number[];
+    sum: number;
+    count: number;
+  }>();
+
+  constructor(public name: string, public help: string, public buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelsKey(labels);
+    let series = this.values.get(key);
+    if (!series) {
+      series = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, series);
+    }
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      series.counts[bucket] += 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  samples() {
+    const samples: string[] = [];
+    this.values.forEach(({
+      labels,
+      counts,
+      sum,
+      count,
+    }) => {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i];
+        samples.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`);
+      });
+      samples.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      samples.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      samples.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return samples;
+  }
+}
+
+export const obligationsScanned = new Counter(
+  'liquidator_obligations_scanned_total',
+  'Obligations evaluated, per market',
+);
+export const underwaterObligations = new Gauge(
+  'liquidator_underwater_obligations',
+  'Unhealthy obligations among those evaluated in the last pass over the market',
+);
+export const liquidationsAttempted = new Counter(
+  'liquidator_liquidations_attempted_total',
+  'Liquidations attempted, including those that failed simulation, per market',
+);
+export const liquidationsSucceeded = new Counter(
+  'liquidator_liquidations_succeeded_total',
+  'Liquidation transactions landed, per market',
+);
+export const liquidationsFailed = new Counter(
+  'liquidator_liquidations_failed_total',
+  'Liquidation transactions that failed or expired, per market and error class',
+);
+export const rpcLatency = new Histogram(
+  'liquidator_rpc_request_duration_seconds',
+  'Latency of RPC requests, per method',
+  LATENCY_BUCKETS,
+);
+export const rpcErrors = new Counter(
+  'liquidator_rpc_errors_total',
+  'RPC requests that failed, per method',
+);
+export const rpcRateLimited = new Counter(
+  'liquidator_rpc_rate_limited_total',
+  'RPC requests answered with HTTP 429, per method',
+);
+export const oracleReadFailures = new Counter(
+  'liquidator_oracle_read_failures_total',
+  'Oracle reads that produced no price, per market and token',
+);
+export const walletBalanceUSD = new Gauge(
+  'liquidator_wallet_balance_usd',
+  'Wallet balance per token, in USD at oracle prices',
+);
+export const epochDuration = new Histogram(
+  'liquidator_epoch_duration_seconds',
+  'Duration of a pass over all markets',
+  EPOCH_BUCKETS,
+);
+
+const METRICS: Metric[] = [
+  obligationsScanned,
+  underwaterObligations,
+  liquidationsAttempted,
+  liquidationsSucceeded,
+  liquidationsFailed,
+  rpcLatency,
+  rpcErrors,
+  rpcRateLimited,
+  oracleReadFailures,
+  walletBalanceUSD,
+  epochDuration,
+];
+
+// All metrics in the Prometheus text exposition format
+export function renderMetrics() {
+  return METRICS.map((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.samples(),
+  ].join('\n')).join('\n').concat('\n');
+}
+
+let server: http.Server | undefined;
+
+export function isMetricsEnabled() {
+  return server !== undefined;
+}
+
+export function getMetricsPort() {
+  return process.env.METRICS_PORT ? Number(process.env.METRICS_PORT) : undefined;
+}
+
+// Serves the metrics on GET /metrics
+export function startMetricsServer(port: number) {
+  server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(renderMetrics());
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  // e.g. EADDRINUSE or EACCES, the liquidator keeps running without metrics
+  server.on('error', (err: NodeJS.ErrnoException) => {
+    logger.error('metrics server failed', { port, code: err.code, error: err });
+  });
+  server.listen(port);
+  return server;
+}
+
+export function stopMetricsServer() {
+  server?.close();
+  server = undefined;
+}
+
+// Times every request made through the connection. Public methods are wrapped on access, so calls
+// the connection makes internally are not counted twice, and non promise results pass through.
+export function instrumentConnection(connection: Connection): Connection {
+  return new Proxy(connection, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || property.startsWith('_')) {
+        return value;
+      }
+      return (...args: any[]) => {
+        const start = Date.now();
+        const result = value.apply(target, args);
+        if (!result || typeof result.then !== 'function') {
+          return result;
+        }
+        const observe = () => rpcLatency.observe({ method: property }, (Date.now() - start) / 1000);
+        return result.then(
+          (resolved: any) => {
+            observe();
+            return resolved;
+          },
+          (err: any) => {
+            observe();
+            rpcErrors.inc({ method: property });
+            throw err;
+          },
+        );
+      };
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import { getLogger } from './logger';
+
+const logger = getLogger('missedOpportunity');
+
+export type MissedOpportunity = {
+  event: 'missed_opportunity';
+  timestamp: string;
+  market: string;
+  obligation: string;
+  // token and amount (base units) the best liquidation would have needed in the wallet
+  symbol: string;
+  mintAddress: string;
+  amountNeeded: string;
+  walletBalance: string;
+  expectedProfit: string;
+  reason: string;
+};
+
+// Logs a liquidation we could not take for lack of inventory as a single JSON line, and appends
+// it to MISSED_OPPORTUNITIES_FILE when set so that inventory targets can be tuned from it.
+export function recordMissedOpportunity(missedOpportunity: Omit<MissedOpportunity, 'event' | 'timestamp'>) {
+  const event: MissedOpportunity = {
+    event: 'missed_opportunity',
+    timestamp: new Date().toISOString(),
+    ...missedOpportunity,
+  };
+  const line = JSON.stringify(event);
+  logger.info('missed opportunity', event);
+
+  if (process.env.MISSED_OPPORTUNITIES_FILE) {
+    try {
+      fs.appendFileSync(process.env.MISSED_OPPORTUNITIES_FILE, `${line}\n`);
+    } catch (err) {
+      logger.error('failed to write missed opportunity', {
+        file: process.env.MISSED_OPPORTUNITIES_FILE,
+        error: err,
+      });
+    }
+  }
+
+  return event;
+}
@@ -0,0 +1,72 @@
+import { Account, PublicKey } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { SenderConnection } from './sender';
+import {
+  SwapInstructions,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from './swap';
+
+// A swap executed by the mock provider
+export type MockSwap = {
+  payer: string;
+  quote: SwapQuote;
+};
+
+// Quotes every pair at fixed prices with unlimited liquidity and records the swaps it is asked
+// to execute instead of sending anything, for running the rebalancer and flash loans offline
+export class MockSwapProvider implements SwapProvider {
+  name = 'mock';
+
+  // mint => USD value of one base unit
+  unitPrices: Record<string, BigNumber>;
+
+  swaps: MockSwap[] = [];
+
+  constructor(unitPrices: Record<string, BigNumber.Value>) {
+    this.unitPrices = {};
+    Object.keys(unitPrices).forEach((mint) => {
+      this.unitPrices[mint] = new BigNumber(unitPrices[mint]);
+    });
+  }
+
+  getUnitPrice(mint: string) {
+    const unitPrice = this.unitPrices[mint];
+    if (!unitPrice) {
+      throw new Error(`no mock price for mint ${mint}`);
+    }
+    return unitPrice;
+  }
+
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const outAmount = new BigNumber(request.amount)
+      .multipliedBy(this.getUnitPrice(request.inputMint))
+      .dividedBy(this.getUnitPrice(request.outputMint))
+      .integerValue(BigNumber.ROUND_DOWN);
+    const minOutAmount = outAmount
+      .multipliedBy(10000 - request.slippageBps)
+      .dividedBy(10000)
+      .integerValue(BigNumber.ROUND_DOWN);
+    return {
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      inAmount: request.amount,
+      outAmount: outAmount.toFixed(0),
+      minOutAmount: minOutAmount.toFixed(0),
+      priceImpactPct: 0,
+      raw: request,
+    };
+  }
+
+  async swap(connection: SenderConnection, payer: Account, quote: SwapQuote): Promise<string> {
+    this.swaps.push({ payer: payer.publicKey.toBase58(), quote });
+    return `mock-swap-${this.swaps.length}`;
+  }
+
+  // nothing to execute on chain
+  async swapInstructions(userPublicKey: PublicKey, quote: SwapQuote): Promise<SwapInstructions> {
+    this.swaps.push({ payer: userPublicKey.toBase58(), quote });
+    return { instructions: [], addressLookupTableAddresses: [] };
+  }
+}
@@ -0,0 +1,215 @@
+import { PublicKey } from '@solana/web3.js';
+import { AggregatorState } from '@switchboard-xyz/switchboard-api';
+import BN from 'bn.js';
+import { MarketConfig } from 'global';
+import { FakeConnection } from './fakeConnection';
+import { getPythPrice, getTokensOracleData, parsePythPriceData } from './oracle';
+
+const SWITCHBOARD_V1_ADDRESS = new PublicKey('DtmE9D2CSB4L5D6A15mraeEjrGMm6auWVzgaD8hK2tZM');
+const PYTH_ADDRESS = new PublicKey('H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG');
+const SWITCHBOARD_ADDRESS = new PublicKey('AdtRGGhmqvom3Jemp5YNrxd9q9unX36BZk1pujkkXijL');
+
+const NOW = 1700000000;
+
+type PythAccountFields = {
+  exponent: number;
+  status: number;
+  price: number;
+  confidence: number;
+  publishSlot: number;
+  publishTime: number;
+  prevPrice: number;
+  prevConfidence: number;
+  prevSlot: number;
+  prevPublishTime: number;
+  emaPrice: number;
+  emaConfidence: number;
+};
+
+const writeI64 = (data: Buffer, offset: number, value: number) => new BN(value)
+  .toTwos(64)
+  .toArrayLike(Buffer, 'le', 8)
+  .copy(data, offset);
+
+// A pyth v2 price account with raw, unscaled values at the offsets of the pyth-client layout
+const encodePythAccount = (fields: Partial<PythAccountFields> = {}) => {
+  const {
+    exponent, status, price, confidence, publishSlot, publishTime,
+    prevPrice, prevConfidence, prevSlot, prevPublishTime, emaPrice, emaConfidence,
+  }: PythAccountFields = {
+    exponent: -8,
+    status: 1,
+    price: 2345678901,
+    confidence: 1500000,
+    publishSlot: 1002,
+    publishTime: NOW - 1,
+    prevPrice: 2340000000,
+    prevConfidence: 2000000,
+    prevSlot: 1001,
+    prevPublishTime: NOW - 2,
+    emaPrice: 2300000000,
+    emaConfidence: 1000000,
+    ...fields,
+  };
+  const data = Buffer.alloc(3312);
+  data.writeUInt32LE(0xa1b2c3d4, 0);
+  data.writeUInt32LE(2, 4);
+  data.writeUInt32LE(3, 8);
+  data.writeInt32LE(exponent, 20);
+  writeI64(data, 48, emaPrice);
+  writeI64(data, 72, emaConfidence);
+  writeI64(data, 96, publishTime);
+  writeI64(data, 176, prevSlot);
+  writeI64(data, 184, prevPrice);
+  writeI64(data, 192, prevConfidence);
+  writeI64(data, 200, prevPublishTime);
+  writeI64(data, 208, price);
+  writeI64(data, 216, confidence);
+  data.writeUInt32LE(status, 224);
+  writeI64(data, 232, publishSlot);
+  return data;
+};
+
+const encodeSwitchboardV1Account = (result: number) => Buffer.concat([
+  Buffer.from([1]),
+  Buffer.from(AggregatorState.encodeDelimited({
+    lastRoundResult: {
+      result,
+      minResponse: result - 0.02,
+      maxResponse: result + 0.02,
+      roundOpenSlot: 990,
+      roundOpenTimestamp: NOW - 30,
+    },
+  }).finish()),
+]);
+
+describe('parsePythPriceData', () => {
+  it('scales the aggregate by the exponent', () => {
+    const pythPrice = parsePythPriceData(encodePythAccount());
+
+    expect(pythPrice.exponent).toBe(-8);
+    expect(pythPrice.price.toString()).toBe('23.45678901');
+    expect(pythPrice.confidence.toString()).toBe('0.015');
+    expect(pythPrice.emaPrice.toString()).toBe('23');
+    expect(pythPrice.emaConfidence.toString()).toBe('0.01');
+    expect(pythPrice.publishSlot).toBe(1002);
+    expect(pythPrice.publishTime).toBe(NOW - 1);
+
+    const bonk = parsePythPriceData(encodePythAccount({ exponent: -10, price: 123456, confidence: 7 }));
+    expect(bonk.price.toString()).toBe('0.0000123456');
+    expect(bonk.confidence.toString()).toBe('7e-10');
+  });
+
+  it('reports the previous aggregate when the current one is not trading', () => {
+    // 0 is unknown and 2 halted
+    [0, 2].forEach((status) => {
+      const pythPrice = parsePythPriceData(encodePythAccount({ status }));
+
+      expect(pythPrice.status).toBe(status);
+      expect(pythPrice.price.toString()).toBe('23.4');
+      expect(pythPrice.confidence.toString()).toBe('0.02');
+      expect(pythPrice.publishSlot).toBe(1001);
+      expect(pythPrice.publishTime).toBe(NOW - 2);
+    });
+  });
+
+  it('rejects accounts that are not pyth v2 price accounts', () => {
+    const notPriceAccount = encodePythAccount();
+    notPriceAccount.writeUInt32LE(2, 8);
+
+    expect(() => parsePythPriceData(notPriceAccount)).toThrow('not a pyth v2 price account');
+    expect(() => parsePythPriceData(Buffer.alloc(3312))).toThrow('not a pyth v2 price account');
+    expect(() => parsePythPriceData(encodePythAccount().slice(0, 200))).toThrow();
+  });
+});
+
+describe('getPythPrice', () => {
+  it('returns the price with the ema as smoothed price', () => {
+    const oraclePrice = getPythPrice(encodePythAccount(), NOW);
+
+    expect(oraclePrice?.price.toString()).toBe('23.45678901');
+    expect(oraclePrice?.smoothedPrice.toString()).toBe('23');
+    expect(oraclePrice?.publishSlot).toBe(1002);
+  });
+
+  it('rejects prices the program would not accept', () => {
+    // non positive
+    expect(getPythPrice(encodePythAccount({ price: 0 }), NOW)).toBeUndefined();
+    expect(getPythPrice(encodePythAccount({ price: -5 }), NOW)).toBeUndefined();
+    // confidence above a tenth of the price
+    expect(getPythPrice(encodePythAccount({ confidence: 234567891 }), NOW)).toBeUndefined();
+    expect(getPythPrice(encodePythAccount({ confidence: 234567890 }), NOW)).toBeDefined();
+    // published more than 240 seconds ago
+    expect(getPythPrice(encodePythAccount({ publishTime: NOW - 241 }), NOW)).toBeUndefined();
+    expect(getPythPrice(encodePythAccount({ publishTime: NOW - 240 }), NOW)).toBeDefined();
+    // not a pyth account
+    expect(getPythPrice(Buffer.alloc(16), NOW)).toBeUndefined();
+  });
+});
+
+describe('getTokensOracleData', () => {
+  const market = {
+    address: 'market',
+    reserves: [{
+      address: 'reserve',
+      pythOracle: PYTH_ADDRESS.toBase58(),
+      switchboardOracle: SWITCHBOARD_ADDRESS.toBase58(),
+      liquidityToken: { symbol: 'SOL', mint: 'So11111111111111111111111111111111111111112', decimals: 9 },
+    }],
+  } as unknown as MarketConfig;
+
+  let connection: FakeConnection;
+
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+    connection = new FakeConnection();
+    connection.setAccount(SWITCHBOARD_ADDRESS, {
+      owner: SWITCHBOARD_V1_ADDRESS,
+      data: encodeSwitchboardV1Account(23.5),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads pyth first', async () => {
+    connection.setAccount(PYTH_ADDRESS, { owner: PublicKey.default, data: encodePythAccount() });
+
+    const [tokenOracle] = await getTokensOracleData(connection, market);
+
+    expect(tokenOracle.source).toBe('pyth');
+    expect(tokenOracle.price.toString()).toBe('23.45678901');
+    expect(tokenOracle.decimals.toString()).toBe('1000000000');
+  });
+
+  it('falls back to switchboard when the pyth price is unusable', async () => {
+    const unusable = [
+      encodePythAccount({ publishTime: NOW - 300 }),
+      encodePythAccount({ confidence: 300000000 }),
+      encodePythAccount({ status: 0, prevPrice: 0 }),
+      Buffer.alloc(3312),
+    ];
+
+    for (const data of unusable) {
+      connection.setAccount(PYTH_ADDRESS, { owner: PublicKey.default, data });
+      const [tokenOracle] = await getTokensOracleData(connection, market);
+
+      expect(tokenOracle.source).toBe('switchboard');
+      expect(tokenOracle.price.toString()).toBe('23.5');
+      expect(tokenOracle.smoothedPrice.toString()).toBe('23.5');
+      expect(tokenOracle.publishSlot).toBe(990);
+    }
+  });
+
+  it('reports a zero price without a source when no oracle is usable', async () => {
+    connection.setAccount(PYTH_ADDRESS, { owner: PublicKey.default, data: Buffer.alloc(3312) });
+    connection.setAccount(SWITCHBOARD_ADDRESS, { owner: PublicKey.default, data: Buffer.alloc(16) });
+
+    const [tokenOracle] = await getTokensOracleData(connection, market);
+
+    expect(tokenOracle.source).toBeNull();
+    expect(tokenOracle.price.isZero()).toBe(true);
+  });
+});
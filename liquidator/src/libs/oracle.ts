@@ -1,55 +1,224 @@
-import { Connection, PublicKey } from "@solana/web3.js";
-import SwitchboardProgram from "@switchboard-xyz/sbv2-lite";
-import { AggregatorState } from "@switchboard-xyz/switchboard-api";
-import BigNumber from "bignumber.js";
-import { MarketConfig, MarketConfigReserve } from "global";
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import SwitchboardProgram from '@switchboard-xyz/sbv2-lite';
+import { AggregatorState } from '@switchboard-xyz/switchboard-api';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { MarketConfig, MarketConfigReserve } from 'global';
+import { LiquidatorConnection } from './connection';
+import { getLogger } from './logger';
 
-const NULL_ORACLE = "nu11111111111111111111111111111111111111111";
-const SWITCHBOARD_V1_ADDRESS = "DtmE9D2CSB4L5D6A15mraeEjrGMm6auWVzgaD8hK2tZM";
-const SWITCHBOARD_V2_ADDRESS = "SW1TCH7qEPTdLsDHRgPuMQjbQxKdH2aBStViMFnt64f";
+const NULL_ORACLE = 'nu11111111111111111111111111111111111111111';
+const SWITCHBOARD_V1_ADDRESS = 'DtmE9D2CSB4L5D6A15mraeEjrGMm6auWVzgaD8hK2tZM';
+const SWITCHBOARD_V2_ADDRESS = 'SW1TCH7qEPTdLsDHRgPuMQjbQxKdH2aBStViMFnt64f';
+
+// Pyth price account layout (pyth-client v2)
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_VERSION = 2;
+const PYTH_PRICE_ACCOUNT_TYPE = 3;
+const PYTH_STATUS_TRADING = 1;
+// Mirrors get_pyth_price in the Solend program: a pyth price is rejected, and the reserve
+// falls back to switchboard, when its confidence is too wide or it is too old.
+const PYTH_CONFIDENCE_RATIO = 10;
+const PYTH_STALE_AFTER_SECONDS_ELAPSED = 240;
 
 let switchboardV2: SwitchboardProgram | undefined;
 
+const logger = getLogger('oracle');
+
+export type OracleSource = 'pyth' | 'switchboard';
+
 export type TokenOracleData = {
   symbol: string;
   reserveAddress: string;
   mintAddress: string;
   decimals: BigNumber;
   price: BigNumber;
+  // pyth EMA price, or the spot price for switchboard, as stored in the reserve's
+  // smoothed_market_price on refresh
+  smoothedPrice: BigNumber;
+  // oracle the price was read from, null when no oracle produced a price
+  source: OracleSource | null;
+  // +/- interval around price as reported by the oracle, in the same units as price
+  confidence: BigNumber;
+  publishSlot: number | null;
+  publishTime: number | null;
 };
 
-async function getTokenOracleData(
-  connection: Connection,
-  reserve: MarketConfigReserve
-) {
-  let priceData;
-  const oracle = {
-    switchboardFeedAddress: reserve.switchboardOracle,
+export type OraclePrice = {
+  price: BigNumber;
+  smoothedPrice: BigNumber;
+  confidence: BigNumber;
+  publishSlot: number | null;
+  publishTime: number | null;
+};
+
+export type PythPriceData = {
+  exponent: number;
+  status: number;
+  price: BigNumber;
+  confidence: BigNumber;
+  emaPrice: BigNumber;
+  emaConfidence: BigNumber;
+  publishSlot: number;
+  publishTime: number;
+};
+
+const readI64 = (data: Buffer, offset: number) =>
+  new BN(data.slice(offset, offset + 8), 'le').fromTwos(64);
+
+const readU64 = (data: Buffer, offset: number) =>
+  new BN(data.slice(offset, offset + 8), 'le');
+
+const toPrice = (value: BN, exponent: number) =>
+  new BigNumber(value.toString()).shiftedBy(exponent);
+
+// Decodes a pyth price account. Like the pyth sdk used on-chain, the previous aggregate is
+// reported when the current one is not trading.
+export function parsePythPriceData(data: Buffer): PythPriceData {
+  if (
+    data.length < 240 ||
+    data.readUInt32LE(0) !== PYTH_MAGIC ||
+    data.readUInt32LE(4) !== PYTH_VERSION ||
+    data.readUInt32LE(8) !== PYTH_PRICE_ACCOUNT_TYPE
+  ) {
+    throw new Error('not a pyth v2 price account');
+  }
+
+  const exponent = data.readInt32LE(20);
+  const status = data.readUInt32LE(224);
+  const trading = status === PYTH_STATUS_TRADING;
+
+  return {
+    exponent,
+    status,
+    price: toPrice(readI64(data, trading ? 208 : 184), exponent),
+    confidence: toPrice(readU64(data, trading ? 216 : 192), exponent),
+    emaPrice: toPrice(readI64(data, 48), exponent),
+    emaConfidence: toPrice(readI64(data, 72), exponent),
+    publishSlot: readU64(data, trading ? 232 : 176).toNumber(),
+    publishTime: readI64(data, trading ? 96 : 200).toNumber(),
+  };
+}
+
+// Returns the pyth price if the program would accept it
+export function getPythPrice(
+  data: Buffer,
+  unixTimestamp: number,
+): OraclePrice | undefined {
+  let pythPrice: PythPriceData;
+  try {
+    pythPrice = parsePythPriceData(data);
+  } catch (err) {
+    return undefined;
+  }
+
+  if (
+    pythPrice.price.isLessThanOrEqualTo(0) ||
+    pythPrice.confidence
+      .multipliedBy(PYTH_CONFIDENCE_RATIO)
+      .isGreaterThan(pythPrice.price) ||
+    unixTimestamp - pythPrice.publishTime > PYTH_STALE_AFTER_SECONDS_ELAPSED
+  ) {
+    return undefined;
+  }
+
+  return {
+    price: pythPrice.price,
+    smoothedPrice: pythPrice.emaPrice,
+    confidence: pythPrice.confidence,
+    publishSlot: pythPrice.publishSlot,
+    publishTime: pythPrice.publishTime,
   };
+}
 
-  const pricePublicKey = new PublicKey(oracle.switchboardFeedAddress);
-  const info = await connection.getAccountInfo(pricePublicKey);
+const toNumberOrNull = (value: any) =>
+  value === undefined || value === null ? null : Number(value.toString());
+
+async function getSwitchboardPrice(
+  connection: LiquidatorConnection,
+  info: AccountInfo<Buffer> | null,
+): Promise<OraclePrice | undefined> {
   const owner = info?.owner.toString();
   if (owner === SWITCHBOARD_V1_ADDRESS) {
     const result = AggregatorState.decodeDelimited(
-      (info?.data as Buffer)?.slice(1)
+      (info?.data as Buffer)?.slice(1),
     );
-    priceData = result?.lastRoundResult?.result;
-  } else if (owner === SWITCHBOARD_V2_ADDRESS) {
+    const round: any = result?.lastRoundResult;
+    if (!round?.result) {
+      return undefined;
+    }
+    const price = new BigNumber(round.result);
+    return {
+      price,
+      smoothedPrice: price,
+      // v1 rounds only report the spread of oracle responses
+      confidence: new BigNumber(round.maxResponse ?? round.result)
+        .minus(round.minResponse ?? round.result)
+        .dividedBy(2),
+      publishSlot: toNumberOrNull(round.roundOpenSlot),
+      publishTime: toNumberOrNull(round.roundOpenTimestamp),
+    };
+  }
+  if (owner === SWITCHBOARD_V2_ADDRESS) {
     if (!switchboardV2) {
-      switchboardV2 = await SwitchboardProgram.loadMainnet(connection);
+      // the program is loaded through the default mainnet endpoint when the connection can't
+      // make the requests it needs, e.g. in tests
+      const rpc = connection instanceof Connection ? connection : undefined;
+      switchboardV2 = await SwitchboardProgram.loadMainnet(rpc);
     }
     const result = switchboardV2.decodeLatestAggregatorValue(info!);
-    priceData = result?.toNumber();
-  } else {
-    console.error("unrecognized switchboard owner address: ", owner);
+    if (!result) {
+      return undefined;
+    }
+    const round: any = switchboardV2.decodeAggregator(info!).latestConfirmedRound;
+    const price = new BigNumber(result.toString());
+    return {
+      price,
+      smoothedPrice: price,
+      confidence: new BigNumber(round.stdDeviation.mantissa.toString()).shiftedBy(
+        -round.stdDeviation.scale,
+      ),
+      publishSlot: toNumberOrNull(round.roundOpenSlot),
+      publishTime: toNumberOrNull(round.roundOpenTimestamp),
+    };
   }
+  logger.error('unrecognized switchboard owner address', { owner });
+  return undefined;
+}
 
-  if (!priceData) {
-    console.error(
-      `failed to get price for ${reserve.liquidityToken.symbol} | reserve ${reserve.address}`
-    );
-    priceData = 0;
+// Pyth is the primary price source and switchboard the fallback, as in the program's
+// refresh_reserve.
+async function getTokenOracleData(
+  connection: LiquidatorConnection,
+  reserve: MarketConfigReserve,
+) {
+  let oraclePrice: OraclePrice | undefined;
+  let source: OracleSource | null = null;
+
+  const [pythInfo, switchboardInfo] = await connection.getMultipleAccountsInfo(
+    [
+      new PublicKey(reserve.pythOracle || NULL_ORACLE),
+      new PublicKey(reserve.switchboardOracle || NULL_ORACLE),
+    ],
+  );
+
+  if (pythInfo && reserve.pythOracle !== NULL_ORACLE) {
+    oraclePrice = getPythPrice(pythInfo.data, Date.now() / 1000);
+    source = oraclePrice ? 'pyth' : null;
+  }
+
+  if (!oraclePrice && reserve.switchboardOracle !== NULL_ORACLE) {
+    oraclePrice = await getSwitchboardPrice(connection, switchboardInfo);
+    source = oraclePrice ? 'switchboard' : null;
+  }
+
+  // A failed read is kept with price 0 and no source so that callers can tell it apart
+  // from a real price and skip the obligations that depend on it.
+  if (!oraclePrice) {
+    logger.error('failed to get price', {
+      symbol: reserve.liquidityToken.symbol,
+      reserve: reserve.address,
+    });
   }
 
   return {
@@ -57,16 +226,21 @@ async function getTokenOracleData(
     reserveAddress: reserve.address,
     mintAddress: reserve.liquidityToken.mint,
     decimals: new BigNumber(10 ** reserve.liquidityToken.decimals),
-    price: new BigNumber(priceData!),
+    price: oraclePrice?.price ?? new BigNumber(0),
+    smoothedPrice: oraclePrice?.smoothedPrice ?? new BigNumber(0),
+    source,
+    confidence: oraclePrice?.confidence ?? new BigNumber(0),
+    publishSlot: oraclePrice?.publishSlot ?? null,
+    publishTime: oraclePrice?.publishTime ?? null,
   } as TokenOracleData;
 }
 
 export async function getTokensOracleData(
-  connection: Connection,
-  market: MarketConfig
+  connection: LiquidatorConnection,
+  market: MarketConfig,
 ) {
   const promises: Promise<any>[] = market.reserves.map((reserve) =>
-    getTokenOracleData(connection, reserve)
+    getTokenOracleData(connection, reserve),
   );
   return Promise.all(promises);
 }
@@ -0,0 +1,95 @@
+import { Obligation } from '@solendprotocol/solend-sdk';
+import { findWhere } from 'underscore';
+import { TokenOracleData } from './oracle';
+
+const DEFAULT_ORACLE_MAX_AGE_SECONDS = 120;
+const DEFAULT_ORACLE_MAX_CONFIDENCE_BPS = 200;
+
+export type OracleLimits = {
+  maxAgeSeconds: number;
+  // widest accepted confidence interval relative to the price, in basis points
+  maxConfidenceBps: number;
+};
+
+export type OracleLimitsConfig = {
+  defaults: OracleLimits;
+  assets: Record<string, OracleLimits>;
+};
+
+// Reads ORACLE_MAX_AGE_SECONDS and ORACLE_MAX_CONFIDENCE_BPS as defaults and ORACLE_LIMITS as
+// per asset overrides in the format "<symbol>:<maxAgeSeconds>:<maxConfidenceBps> ..."
+export function getOracleLimits(): OracleLimitsConfig {
+  const defaults = {
+    maxAgeSeconds: process.env.ORACLE_MAX_AGE_SECONDS
+      ? Number(process.env.ORACLE_MAX_AGE_SECONDS)
+      : DEFAULT_ORACLE_MAX_AGE_SECONDS,
+    maxConfidenceBps: process.env.ORACLE_MAX_CONFIDENCE_BPS
+      ? Number(process.env.ORACLE_MAX_CONFIDENCE_BPS)
+      : DEFAULT_ORACLE_MAX_CONFIDENCE_BPS,
+  };
+
+  const assets: Record<string, OracleLimits> = {};
+  (process.env.ORACLE_LIMITS || '').split(' ').forEach((limit) => {
+    const [symbol, maxAgeSeconds, maxConfidenceBps] = limit.split(':');
+    if (symbol) {
+      assets[symbol] = {
+        maxAgeSeconds: maxAgeSeconds ? Number(maxAgeSeconds) : defaults.maxAgeSeconds,
+        maxConfidenceBps: maxConfidenceBps ? Number(maxConfidenceBps) : defaults.maxConfidenceBps,
+      };
+    }
+  });
+
+  return { defaults, assets };
+}
+
+// Returns why a price should not be acted on, or undefined when it is usable
+export function getUnreliablePriceReason(
+  tokenOracle: TokenOracleData,
+  limits: OracleLimitsConfig,
+  unixTimestamp: number,
+): string | undefined {
+  const { maxAgeSeconds, maxConfidenceBps } = limits.assets[tokenOracle.symbol] || limits.defaults;
+
+  if (!tokenOracle.source || tokenOracle.price.isLessThanOrEqualTo(0)) {
+    return `no price for ${tokenOracle.symbol}`;
+  }
+  if (tokenOracle.publishTime === null) {
+    return `unknown publish time for ${tokenOracle.symbol} price`;
+  }
+  const age = unixTimestamp - tokenOracle.publishTime;
+  if (age > maxAgeSeconds) {
+    return `${tokenOracle.symbol} price from ${tokenOracle.source} is ${Math.round(age)}s old (max ${maxAgeSeconds}s)`;
+  }
+  const confidenceBps = tokenOracle.confidence.dividedBy(tokenOracle.price).multipliedBy(10000);
+  if (confidenceBps.isGreaterThan(maxConfidenceBps)) {
+    return `${tokenOracle.symbol} price from ${tokenOracle.source} has confidence of ${confidenceBps.toFixed(0)}bps (max ${maxConfidenceBps}bps)`;
+  }
+  return undefined;
+}
+
+// Collects the reasons the prices of an obligation's reserves can't be trusted. Reserves
+// without oracle data are left to calculateRefreshedObligation to report.
+export function getObligationPriceIssues(
+  obligation: Obligation,
+  tokensOracle: TokenOracleData[],
+  limits: OracleLimitsConfig,
+  unixTimestamp: number,
+): string[] {
+  const reserveAddresses = new Set<string>([
+    ...obligation.deposits.map((deposit) => deposit.depositReserve.toString()),
+    ...obligation.borrows.map((borrow) => borrow.borrowReserve.toString()),
+  ]);
+
+  const issues: string[] = [];
+  reserveAddresses.forEach((reserveAddress) => {
+    const tokenOracle: TokenOracleData | undefined = findWhere(tokensOracle, { reserveAddress });
+    if (!tokenOracle) {
+      return;
+    }
+    const reason = getUnreliablePriceReason(tokenOracle, limits, unixTimestamp);
+    if (reason) {
+      issues.push(reason);
+    }
+  });
+  return issues;
+}
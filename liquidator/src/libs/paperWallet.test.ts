@@ -0,0 +1,99 @@
+import { Keypair } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import fs from 'fs';
+import { MarketConfig } from 'global';
+import os from 'os';
+import path from 'path';
+import { PaperWallet, parsePaperWallet } from './paperWallet';
+import { LiquidationCandidate } from './planLiquidation';
+
+const market = {
+  address: 'market',
+  reserves: [
+    { liquidityToken: { symbol: 'USDC', decimals: 6 } },
+    { liquidityToken: { symbol: 'SOL', decimals: 9 } },
+  ],
+} as unknown as MarketConfig;
+
+const newObligation = () => ({
+  pubkey: Keypair.generate().publicKey,
+  info: { lastUpdate: { slot: new BN(100) } },
+});
+
+// repays 200 USDC for 2.1 SOL, a bonus of $10
+const candidate = {
+  borrow: { symbol: 'USDC' },
+  deposit: { symbol: 'SOL' },
+  amount: {
+    repayAmount: new BigNumber(200000000),
+    withdrawLiquidityAmount: new BigNumber(2100000000),
+    repayValue: new BigNumber(200),
+    withdrawValue: new BigNumber(210),
+    expectedProfit: new BigNumber(10),
+  },
+  score: new BigNumber(10),
+} as unknown as LiquidationCandidate;
+
+describe('PaperWallet', () => {
+  let file: string;
+
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+    file = path.join(os.tmpdir(), `paper-trades-${process.pid}-${Date.now()}.jsonl`);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it('debits the repay token and credits the withdrawn token', () => {
+    const wallet = new PaperWallet(parsePaperWallet('USDC:1000'), file);
+    const obligation = newObligation();
+
+    const trade = wallet.recordLiquidation(market, obligation, candidate)!;
+
+    expect(wallet.balances.USDC.toString()).toBe('800');
+    expect(wallet.balances.SOL.toString()).toBe('2.1');
+    expect(trade).toMatchObject({
+      repayAmount: '200', withdrawAmount: '2.1', flashLoan: false, flashLoanFee: '0',
+    });
+    expect(wallet.isLiquidated(obligation)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(trade);
+  });
+
+  it('only credits the bonus less the fee of a flash loan', () => {
+    const wallet = new PaperWallet(parsePaperWallet('USDC:0'), file);
+
+    // 0.6 USDC of fee
+    const trade = wallet.recordLiquidation(market, newObligation(), candidate, new BigNumber(600000))!;
+
+    expect(wallet.balances.USDC.toString()).toBe('9.4');
+    expect(wallet.balances.SOL).toBeUndefined();
+    expect(trade).toMatchObject({
+      flashLoan: true, flashLoanFee: '0.6', balances: { USDC: '9.4' },
+    });
+  });
+
+  it('never takes a balance below zero with flash loans', () => {
+    const wallet = new PaperWallet(parsePaperWallet('USDC:0 SOL:0'), file);
+    const fees = [600000, 10000000, 15000000, 0, 12000000];
+
+    fees.forEach((fee) => {
+      const obligation = newObligation();
+      const trade = wallet.recordLiquidation(market, obligation, candidate, new BigNumber(fee));
+
+      // a fee above the $10 bonus isn't repayable and leaves the wallet as it was
+      expect(trade === undefined).toBe(fee > 10000000);
+      expect(wallet.isLiquidated(obligation)).toBe(fee <= 10000000);
+      Object.values(wallet.balances).forEach((balance) => {
+        expect(balance.isGreaterThanOrEqualTo(0)).toBe(true);
+      });
+    });
+
+    expect(wallet.balances.USDC.toString()).toBe('19.4');
+    expect(wallet.balances.SOL.toString()).toBe('0');
+  });
+});
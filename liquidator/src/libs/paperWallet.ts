@@ -0,0 +1,176 @@
+import BigNumber from 'bignumber.js';
+import fs from 'fs';
+import { MarketConfig } from 'global';
+import { findWhere } from 'underscore';
+import { getLogger } from './logger';
+import { TokenOracleData } from './oracle';
+import { getRepayableBorrows, LiquidationCandidate } from './planLiquidation';
+import { Borrow } from './refreshObligation';
+
+const DEFAULT_PAPER_TRADES_FILE = 'paper-trades.jsonl';
+
+const logger = getLogger('paperWallet');
+
+export type PaperTrade = {
+  event: 'paper_liquidation';
+  timestamp: string;
+  market: string;
+  obligation: string;
+  repaySymbol: string;
+  withdrawSymbol: string;
+  // token units
+  repayAmount: string;
+  withdrawAmount: string;
+  // USD
+  repayValue: string;
+  withdrawValue: string;
+  expectedBonus: string;
+  flashLoan: boolean;
+  // token units of the repay token
+  flashLoanFee: string;
+  // wallet after the trade, in token units
+  balances: Record<string, string>;
+};
+
+const getDecimals = (market: MarketConfig, symbol: string) => {
+  const reserve = market.reserves.find((config) => config.liquidityToken.symbol === symbol);
+  if (!reserve) {
+    throw new Error(`${symbol} is not in market ${market.address}`);
+  }
+  return reserve.liquidityToken.decimals;
+};
+
+// Parses a wallet in the TARGETS format, e.g. "USDC:1000 SOL:10", into token units per symbol
+export function parsePaperWallet(spec: string) {
+  const balances: Record<string, BigNumber> = {};
+  spec.split(' ').forEach((entry) => {
+    const [symbol, amount] = entry.split(':');
+    if (symbol && amount) {
+      balances[symbol] = new BigNumber(amount);
+    }
+  });
+  return balances;
+}
+
+// A virtual wallet for dry runs. Liquidations are sized against it and debit the repay token and
+// credit the withdrawn token as if they had landed, flash loan liquidations only credit their net
+// result. Every trade is logged and appended to a file.
+export class PaperWallet {
+  // token units per symbol
+  balances: Record<string, BigNumber>;
+
+  file: string;
+
+  // obligation => lastUpdate slot at the time of its paper liquidation, so an obligation isn't
+  // liquidated again on paper until it changes on chain
+  liquidated = new Map<string, string>();
+
+  constructor(
+    balances: Record<string, BigNumber>,
+    file: string = process.env.PAPER_TRADES_FILE || DEFAULT_PAPER_TRADES_FILE,
+  ) {
+    this.balances = balances;
+    this.file = file;
+  }
+
+  // What the virtual wallet holds of every repayable borrow, in base units
+  getMaxRepayAmounts(market: MarketConfig, borrows: Borrow[]) {
+    const maxRepayAmounts: Record<string, BigNumber> = {};
+    getRepayableBorrows(borrows).forEach(({ symbol }) => {
+      maxRepayAmounts[symbol] = BigNumber.max(this.balances[symbol] || 0, 0)
+        .shiftedBy(getDecimals(market, symbol))
+        .integerValue(BigNumber.ROUND_DOWN);
+    });
+    return maxRepayAmounts;
+  }
+
+  isLiquidated(obligation: any) {
+    return this.liquidated.get(obligation.pubkey.toString())
+      === obligation.info.lastUpdate.slot.toString();
+  }
+
+  // Returns undefined when a flash loan liquidation wouldn't be repayable, which on chain would
+  // fail and leave the wallet as it was
+  recordLiquidation(
+    market: MarketConfig,
+    obligation: any,
+    candidate: LiquidationCandidate,
+    // in repay token base units, undefined without a flash loan
+    flashLoanFee?: BigNumber,
+  ) {
+    const { borrow, deposit, amount } = candidate;
+    const repayDecimals = getDecimals(market, borrow.symbol);
+    const repayAmount = amount.repayAmount.shiftedBy(-repayDecimals);
+    const withdrawAmount = amount.withdrawLiquidityAmount.shiftedBy(
+      -getDecimals(market, deposit.symbol),
+    );
+    const fee = (flashLoanFee || new BigNumber(0)).shiftedBy(-repayDecimals);
+    const balance = (symbol: string) => this.balances[symbol] || new BigNumber(0);
+
+    if (flashLoanFee) {
+      // the repay token is borrowed and paid back out of the swapped collateral, so the wallet
+      // only keeps the bonus, in the repay token, less the flash loan fee
+      const net = amount.repayValue.isZero()
+        ? fee.negated()
+        : amount.expectedProfit
+          .multipliedBy(repayAmount)
+          .dividedBy(amount.repayValue)
+          .minus(fee)
+          .decimalPlaces(repayDecimals, BigNumber.ROUND_DOWN);
+      if (net.isLessThan(0)) {
+        logger.warn('paper flash loan not repayable', {
+          obligation: obligation.pubkey.toString(),
+          repaySymbol: borrow.symbol,
+          expectedBonus: amount.expectedProfit.toFixed(2),
+          flashLoanFee: fee.toString(),
+        });
+        return undefined;
+      }
+      this.balances[borrow.symbol] = balance(borrow.symbol).plus(net);
+    } else {
+      this.balances[borrow.symbol] = balance(borrow.symbol).minus(repayAmount);
+      this.balances[deposit.symbol] = balance(deposit.symbol).plus(withdrawAmount);
+    }
+    this.liquidated.set(obligation.pubkey.toString(), obligation.info.lastUpdate.slot.toString());
+
+    const balances: Record<string, string> = {};
+    Object.keys(this.balances).forEach((symbol) => {
+      balances[symbol] = this.balances[symbol].toString();
+    });
+    const trade: PaperTrade = {
+      event: 'paper_liquidation',
+      timestamp: new Date().toISOString(),
+      market: market.address,
+      obligation: obligation.pubkey.toString(),
+      repaySymbol: borrow.symbol,
+      withdrawSymbol: deposit.symbol,
+      repayAmount: repayAmount.toString(),
+      withdrawAmount: withdrawAmount.toString(),
+      repayValue: amount.repayValue.toFixed(2),
+      withdrawValue: amount.withdrawValue.toFixed(2),
+      expectedBonus: candidate.score.toFixed(2),
+      flashLoan: !!flashLoanFee,
+      flashLoanFee: fee.toString(),
+      balances,
+    };
+    const line = JSON.stringify(trade);
+    logger.info('paper liquidation', trade);
+    try {
+      fs.appendFileSync(this.file, `${line}\n`);
+    } catch (err) {
+      logger.error('failed to write paper trade', { file: this.file, error: err });
+    }
+    return trade;
+  }
+}
+
+// Total USD value of the virtual wallet at the given prices
+export function getPaperWalletValue(
+  balances: Record<string, BigNumber>,
+  tokensOracle: TokenOracleData[],
+) {
+  return Object.keys(balances).reduce((total, symbol) => {
+    const oracle: TokenOracleData | undefined = findWhere(tokensOracle, { symbol });
+    return oracle ? total.plus(balances[symbol].multipliedBy(oracle.price)) : total;
+  }, new BigNumber(0));
+}
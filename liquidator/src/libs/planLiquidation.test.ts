@@ -0,0 +1,117 @@
+import { PublicKey } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { planLiquidation } from './planLiquidation';
+import {
+  Borrow,
+  Deposit,
+  getMaxLiquidationAmountWads,
+  RefreshedObligation,
+} from './refreshObligation';
+import { WAD } from './utils';
+
+const USDC = new PublicKey(1);
+const SOL = new PublicKey(2);
+const MSOL = new PublicKey(3);
+const ETH = new PublicKey(4);
+
+// 1000 USDC borrowed at $1
+const usdcBorrow = (): Borrow => {
+  const borrowAmountWadsWithInterest = new BigNumber(1000000000).multipliedBy(WAD);
+  const marketValue = new BigNumber(1000);
+  return {
+    borrowReserve: USDC,
+    borrowAmountWads: new BN(borrowAmountWadsWithInterest.toFixed()),
+    borrowAmountWadsWithInterest,
+    marketValue,
+    mintAddress: 'USDC',
+    symbol: 'USDC',
+    addedBorrowWeightBPS: new BN(0),
+    maxLiquidationAmountWads: getMaxLiquidationAmountWads(
+      { marketValue, borrowAmountWadsWithInterest },
+      marketValue,
+    ),
+  };
+};
+
+const deposit = (depositReserve: PublicKey, symbol: string, depositAmount: number, marketValue: number): Deposit => ({
+  depositReserve,
+  depositAmount: new BN(depositAmount),
+  marketValue: new BigNumber(marketValue),
+  symbol,
+});
+
+// A parsed reserve with a collateral exchange rate of 1, the protocol fee in deca bps
+const reserve = (pubkey: PublicKey, liquidationBonus: number, protocolLiquidationFee = 0) => ({
+  pubkey,
+  info: {
+    config: { liquidationBonus, protocolLiquidationFee },
+    liquidity: { availableAmount: new BN(1000000000000), borrowedAmountWads: new BN(0) },
+    collateral: { mintTotalSupply: new BN(0) },
+  },
+});
+
+const refreshedObligation = (deposits: Deposit[]) => ({
+  borrows: [usdcBorrow()],
+  deposits,
+} as unknown as RefreshedObligation);
+
+describe('planLiquidation', () => {
+  const options = { slippageBps: 0, txCostUSD: 0 };
+
+  it('ranks pairs by their bonus net of the protocol fee', () => {
+    // 20 SOL at $100 with a 10% bonus, half of which is taken as fee, and 1 ETH at $2000 with 7%
+    const plan = planLiquidation(
+      refreshedObligation([deposit(SOL, 'SOL', 20000000000, 2000), deposit(ETH, 'ETH', 100000000, 2000)]),
+      [reserve(USDC, 5), reserve(SOL, 10, 500), reserve(ETH, 7)],
+      options,
+    );
+
+    expect(plan.candidates.map((candidate) => candidate.deposit.symbol)).toEqual(['ETH', 'SOL']);
+    const [eth, sol] = plan.candidates;
+    expect(sol.amount.protocolFee.toString()).toBe('100000000');
+    expect(sol.score.toString()).toBe('10');
+    expect(eth.score.toFixed(2)).toBe('14.00');
+    expect(sol.reason).toBe(
+      'repay $200.00 USDC for $210.00 SOL after protocol fee: bonus $10.00, slippage $0.00, tx $0.00, net $10.00',
+    );
+  });
+
+  it('takes slippage and the transaction cost off the bonus', () => {
+    const plan = planLiquidation(
+      refreshedObligation([deposit(SOL, 'SOL', 20000000000, 2000)]),
+      [reserve(USDC, 5), reserve(SOL, 10, 500)],
+      { slippageBps: 100, txCostUSD: 1 },
+    );
+
+    const [sol] = plan.candidates;
+    expect(sol.slippageCost.toString()).toBe('2.1');
+    expect(sol.score.toString()).toBe('6.9');
+
+    const unprofitable = planLiquidation(
+      refreshedObligation([deposit(SOL, 'SOL', 20000000000, 2000)]),
+      [reserve(USDC, 5), reserve(SOL, 10, 500)],
+      { slippageBps: 100, txCostUSD: 8 },
+    );
+    expect(unprofitable.candidates).toEqual([]);
+    expect(unprofitable.rejected).toEqual([expect.objectContaining({
+      borrowSymbol: 'USDC',
+      depositSymbol: 'SOL',
+      reason: expect.stringMatching(/^unprofitable: .* net \$-0\.10$/),
+    })]);
+  });
+
+  it('withdraws the largest deposit when pairs score the same', () => {
+    // both pay $210 of collateral for $200
+    const deposits = [deposit(SOL, 'SOL', 20000000000, 2000), deposit(MSOL, 'mSOL', 30000000000, 3000)];
+    const reserves = [reserve(USDC, 5), reserve(SOL, 5), reserve(MSOL, 5)];
+
+    [deposits, [...deposits].reverse()].forEach((obligationDeposits) => {
+      const plan = planLiquidation(refreshedObligation(obligationDeposits), reserves, options);
+
+      const [first, second] = plan.candidates;
+      expect(first.score.isEqualTo(second.score)).toBe(true);
+      expect(plan.candidates.map((candidate) => candidate.deposit.symbol)).toEqual(['mSOL', 'SOL']);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { Account } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { MarketConfig } from 'global';
+import { find } from 'underscore';
+import { LiquidatorConnection } from './connection';
+import { calculateLiquidationAmount, LiquidationAmount } from './liquidationAmount';
+import { Borrow, Deposit, RefreshedObligation } from './refreshObligation';
+import { getSwapSlippageBps } from './swap';
+import { getWalletTokenData, sortBorrows } from './utils';
+
+export type LiquidationCandidate = {
+  borrow: Borrow;
+  deposit: Deposit;
+  amount: LiquidationAmount;
+  // cost of swapping the redeemed collateral back into the repay token
+  slippageCost: BigNumber;
+  txCost: BigNumber;
+  // expected bonus net of protocol fee, slippage and transaction cost, in USD
+  score: BigNumber;
+  reason: string;
+};
+
+export type RejectedPair = {
+  borrowSymbol: string;
+  depositSymbol: string;
+  reason: string;
+};
+
+export type LiquidationPlan = {
+  // valid pairs, most profitable first, then by deposit value
+  candidates: LiquidationCandidate[];
+  rejected: RejectedPair[];
+};
+
+export type PlanOptions = {
+  // max repay amount per borrow symbol in base units, e.g. wallet balances. Unlisted symbols
+  // are bounded by the program only.
+  maxRepayAmounts?: Record<string, BigNumber>;
+  slippageBps?: number;
+  txCostUSD?: number;
+};
+
+export function getTxCostUSD() {
+  return process.env.LIQUIDATION_TX_COST_USD
+    ? Number(process.env.LIQUIDATION_TX_COST_USD)
+    : 0;
+}
+
+// The program only accepts repaying a borrow of the highest borrow weight, so those are the
+// only borrows that can be selected.
+export function getRepayableBorrows(borrows: Borrow[]) {
+  const sorted = sortBorrows([...borrows]);
+  if (!sorted.length) {
+    return [];
+  }
+  const maxWeight = sorted[0].addedBorrowWeightBPS;
+  return sorted.filter((borrow) => borrow.addedBorrowWeightBPS.eq(maxWeight));
+}
+
+// What the wallet holds of every repayable borrow, in base units, to size liquidations with
+export async function getMaxRepayAmounts(
+  connection: LiquidatorConnection,
+  market: MarketConfig,
+  payer: Pick<Account, 'publicKey'>,
+  borrows: Borrow[],
+) {
+  const repayBalances = await Promise.all(
+    getRepayableBorrows(borrows).map((borrow) => getWalletTokenData(
+      connection,
+      market,
+      payer,
+      borrow.mintAddress,
+      borrow.symbol,
+    )),
+  );
+  const maxRepayAmounts: Record<string, BigNumber> = {};
+  repayBalances.forEach(({ balanceBase, symbol }) => {
+    // a negative balance means the token account is missing or the read failed
+    maxRepayAmounts[symbol] = new BigNumber(Math.max(balanceBase, 0));
+  });
+  return maxRepayAmounts;
+}
+
+const usd = (value: BigNumber) => `$${value.toFixed(2)}`;
+
+// Scores every (borrow, deposit) pair of an unhealthy obligation by its expected bonus minus
+// fees and slippage, and returns them ranked together with the reasoning behind each decision.
+export function planLiquidation(
+  refreshedObligation: RefreshedObligation,
+  reserves,
+  options: PlanOptions = {},
+): LiquidationPlan {
+  const slippageBps = options.slippageBps ?? getSwapSlippageBps();
+  const txCost = new BigNumber(options.txCostUSD ?? getTxCostUSD());
+  const { borrows, deposits } = refreshedObligation;
+  const repayableBorrows = getRepayableBorrows(borrows);
+
+  const candidates: LiquidationCandidate[] = [];
+  const rejected: RejectedPair[] = [];
+
+  borrows.forEach((borrow) => {
+    const repayable = repayableBorrows.includes(borrow);
+    deposits.forEach((deposit) => {
+      const reject = (reason: string) => rejected.push({
+        borrowSymbol: borrow.symbol,
+        depositSymbol: deposit.symbol,
+        reason,
+      });
+
+      if (!repayable) {
+        reject(`${repayableBorrows[0].symbol} has a higher borrow weight and must be repaid first`);
+        return;
+      }
+      const maxRepayAmount = options.maxRepayAmounts?.[borrow.symbol];
+      if (options.maxRepayAmounts && !maxRepayAmount?.isGreaterThan(0)) {
+        reject(`no ${borrow.symbol} in wallet to repay with`);
+        return;
+      }
+      const withdrawReserve = find(reserves, (reserve) => reserve.pubkey.equals(deposit.depositReserve));
+      if (!withdrawReserve) {
+        reject('withdraw reserve not found');
+        return;
+      }
+
+      const amount = calculateLiquidationAmount(
+        borrow,
+        deposit,
+        withdrawReserve.info,
+        maxRepayAmount,
+        borrow.borrowReserve.equals(deposit.depositReserve),
+      );
+      if (!amount) {
+        reject(`nothing to repay or ${deposit.symbol} reserve lacks liquidity to redeem`);
+        return;
+      }
+
+      const slippageCost = borrow.symbol === deposit.symbol
+        ? new BigNumber(0)
+        : amount.withdrawValue.multipliedBy(slippageBps).dividedBy(10000);
+      const score = amount.expectedProfit.minus(slippageCost).minus(txCost);
+      const reason = `repay ${usd(amount.repayValue)} ${borrow.symbol} for ${usd(amount.withdrawValue)} ${deposit.symbol}`
+        + ` after protocol fee: bonus ${usd(amount.expectedProfit)}, slippage ${usd(slippageCost)}, tx ${usd(txCost)}, net ${usd(score)}`
+        + `${amount.closeOut ? ', dust close out' : ''}`;
+
+      if (score.isLessThanOrEqualTo(0)) {
+        reject(`unprofitable: ${reason}`);
+        return;
+      }
+
+      candidates.push({
+        borrow,
+        deposit,
+        amount,
+        slippageCost,
+        txCost,
+        score,
+        reason,
+      });
+    });
+  });
+
+  // as before pairs were scored, the largest deposit is withdrawn on a tie
+  candidates.sort((a, b) => b.score.comparedTo(a.score)
+    || b.deposit.marketValue.comparedTo(a.deposit.marketValue));
+
+  return { candidates, rejected };
+}
@@ -0,0 +1,136 @@
+import {
+  decodeFailure,
+  describeFailure,
+  FailureClass,
+  LendingError,
+  RETRY_POLICY,
+  RetryAction,
+} from './programErrors';
+
+const LENDING_PROGRAM_ID = 'So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGC3PTAcS2bzW9KgDvqF7sTB';
+const JUPITER_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+const failedLogs = (programId: string, code: number, ...messages: string[]) => [
+  `Program ${programId} invoke [1]`,
+  ...messages.map((message) => `Program log: ${message}`),
+  `Program ${programId} consumed 20000 of 200000 compute units`,
+  `Program ${programId} failed: custom program error: 0x${code.toString(16)}`,
+];
+
+describe('LendingError', () => {
+  it('numbers the errors like the program', () => {
+    const codes = Object.values(LendingError).filter((value) => typeof value === 'number');
+    expect(codes).toEqual(codes.map((_, i) => i));
+
+    expect(LendingError.InsufficientProtocolFeesToRedeem).toBe(46);
+    expect(LendingError.FlashBorrowCpi).toBe(47);
+    expect(LendingError.FlashRepayCpi).toBe(50);
+    expect(LendingError.MultipleFlashBorrows).toBe(51);
+    expect(LendingError.FlashLoansDisabled).toBe(52);
+    expect(LendingError.BorrowAttributionLimitNotExceeded).toBe(59);
+  });
+});
+
+describe('decodeFailure', () => {
+  it('decodes the lending program error of the logs', () => {
+    const failure = decodeFailure(
+      { InstructionError: [3, { Custom: 29 }] },
+      failedLogs(LENDING_PROGRAM_ID, 29, 'Obligation is healthy and cannot be liquidated'),
+      LENDING_PROGRAM_ID,
+    );
+
+    expect(failure).toMatchObject({
+      failureClass: FailureClass.ObligationHealthy,
+      retryAction: RetryAction.Skip,
+      programId: LENDING_PROGRAM_ID,
+      customCode: 29,
+      lendingError: LendingError.ObligationHealthy,
+    });
+  });
+
+  it('does not take custom errors of other programs for lending errors', () => {
+    // TokenError::InsufficientFunds
+    const tokenFailure = decodeFailure(
+      { InstructionError: [3, { Custom: 1 }] },
+      [
+        `Program ${LENDING_PROGRAM_ID} invoke [1]`,
+        ...failedLogs(TOKEN_PROGRAM_ID, 1, 'Error: insufficient funds'),
+        `Program ${LENDING_PROGRAM_ID} failed: custom program error: 0x1`,
+      ],
+      LENDING_PROGRAM_ID,
+    );
+    expect(tokenFailure).toMatchObject({
+      failureClass: FailureClass.InsufficientFunds,
+      retryAction: RetryAction.Skip,
+      programId: TOKEN_PROGRAM_ID,
+      customCode: 1,
+    });
+    expect(tokenFailure.lendingError).toBeUndefined();
+
+    const swapFailure = decodeFailure(
+      { InstructionError: [5, { Custom: 6001 }] },
+      failedLogs(JUPITER_PROGRAM_ID, 6001, 'AnchorError occurred. Error Code: SlippageToleranceExceeded.'),
+      LENDING_PROGRAM_ID,
+    );
+    expect(swapFailure).toMatchObject({
+      failureClass: FailureClass.Slippage,
+      retryAction: RetryAction.RetryNextSlot,
+      programId: JUPITER_PROGRAM_ID,
+      customCode: 6001,
+    });
+  });
+
+  it('attributes custom errors without logs to the lending program', () => {
+    expect(decodeFailure({ InstructionError: [2, { Custom: 20 }] }, [], LENDING_PROGRAM_ID)).toMatchObject({
+      failureClass: FailureClass.InsufficientLiquidity,
+      retryAction: RetryAction.LiquidateWithoutRedeem,
+      lendingError: LendingError.InsufficientLiquidity,
+    });
+    expect(decodeFailure({ InstructionError: [2, { Custom: 22 }] }, [], LENDING_PROGRAM_ID)).toMatchObject({
+      failureClass: FailureClass.StaleReserve,
+      retryAction: RetryAction.RetryNextSlot,
+      lendingError: LendingError.ReserveStale,
+    });
+    expect(decodeFailure(
+      'Transaction simulation failed: Error processing Instruction 2: custom program error: 0x34',
+      [],
+      LENDING_PROGRAM_ID,
+    )).toMatchObject({
+      failureClass: FailureClass.FlashLoan,
+      retryAction: RetryAction.Skip,
+      customCode: 52,
+      lendingError: LendingError.FlashLoansDisabled,
+    });
+  });
+
+  it('leaves unknown errors unclassified', () => {
+    const failure = decodeFailure({ InstructionError: [2, { Custom: 200 }] }, [], LENDING_PROGRAM_ID);
+    expect(failure).toMatchObject({
+      failureClass: FailureClass.Unknown,
+      retryAction: RetryAction.Skip,
+      customCode: 200,
+    });
+    expect(failure.lendingError).toBeUndefined();
+
+    expect(decodeFailure('BlockhashNotFound', [], LENDING_PROGRAM_ID).failureClass).toBe(FailureClass.Unknown);
+  });
+
+  it('has a retry action for every failure class', () => {
+    Object.values(FailureClass).forEach((failureClass) => {
+      expect(Object.values(RetryAction)).toContain(RETRY_POLICY[failureClass]);
+    });
+  });
+});
+
+describe('describeFailure', () => {
+  it('names the lending error or the failed program', () => {
+    expect(describeFailure(decodeFailure({ InstructionError: [2, { Custom: 28 }] }, [], LENDING_PROGRAM_ID)))
+      .toBe('liquidation_too_small (LiquidationTooSmall), skip: {"InstructionError":[2,{"Custom":28}]}');
+    expect(describeFailure(decodeFailure(
+      { InstructionError: [5, { Custom: 6001 }] },
+      failedLogs(JUPITER_PROGRAM_ID, 6001),
+      LENDING_PROGRAM_ID,
+    ))).toBe(`unknown (custom error 6001 in ${JUPITER_PROGRAM_ID}), skip: {"InstructionError":[5,{"Custom":6001}]}`);
+  });
+});
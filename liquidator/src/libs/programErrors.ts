@@ -0,0 +1,209 @@
+import { getProgramIdForCurrentDeployment } from './utils';
+
+// Custom error codes of the lending program, in the order of its LendingError enum
+export enum LendingError {
+  InstructionUnpackError = 0,
+  AlreadyInitialized = 1,
+  NotRentExempt = 2,
+  InvalidMarketAuthority = 3,
+  InvalidMarketOwner = 4,
+  InvalidAccountOwner = 5,
+  InvalidTokenOwner = 6,
+  InvalidTokenAccount = 7,
+  InvalidTokenMint = 8,
+  InvalidTokenProgram = 9,
+  InvalidAmount = 10,
+  InvalidConfig = 11,
+  InvalidSigner = 12,
+  InvalidAccountInput = 13,
+  MathOverflow = 14,
+  TokenInitializeMintFailed = 15,
+  TokenInitializeAccountFailed = 16,
+  TokenTransferFailed = 17,
+  TokenMintToFailed = 18,
+  TokenBurnFailed = 19,
+  InsufficientLiquidity = 20,
+  ReserveCollateralDisabled = 21,
+  ReserveStale = 22,
+  WithdrawTooSmall = 23,
+  WithdrawTooLarge = 24,
+  BorrowTooSmall = 25,
+  BorrowTooLarge = 26,
+  RepayTooSmall = 27,
+  LiquidationTooSmall = 28,
+  ObligationHealthy = 29,
+  ObligationStale = 30,
+  ObligationReserveLimit = 31,
+  InvalidObligationOwner = 32,
+  ObligationDepositsEmpty = 33,
+  ObligationBorrowsEmpty = 34,
+  ObligationDepositsZero = 35,
+  ObligationBorrowsZero = 36,
+  InvalidObligationCollateral = 37,
+  InvalidObligationLiquidity = 38,
+  ObligationCollateralEmpty = 39,
+  ObligationLiquidityEmpty = 40,
+  NegativeInterestRate = 41,
+  InvalidOracleConfig = 42,
+  InvalidFlashLoanReceiverProgram = 43,
+  NotEnoughLiquidityAfterFlashLoan = 44,
+  NullOracleConfig = 45,
+  InsufficientProtocolFeesToRedeem = 46,
+  FlashBorrowCpi = 47,
+  NoFlashRepayFound = 48,
+  InvalidFlashRepay = 49,
+  FlashRepayCpi = 50,
+  MultipleFlashBorrows = 51,
+  FlashLoansDisabled = 52,
+  SwitchboardV2Error = 53,
+  CouldNotDeserialize = 54,
+  OutflowRateLimitExceeded = 55,
+  NotWhitelistedLiquidator = 56,
+  IsolatedTierAssetViolation = 57,
+  BorrowAttributionLimitExceeded = 58,
+  BorrowAttributionLimitNotExceeded = 59,
+}
+
+// What went wrong with a liquidation, as far as the liquidator needs to know to react
+export enum FailureClass {
+  ObligationHealthy = 'obligation_healthy',
+  InsufficientLiquidity = 'insufficient_liquidity',
+  StaleReserve = 'stale_reserve',
+  StaleOracle = 'stale_oracle',
+  Slippage = 'slippage',
+  LiquidationTooSmall = 'liquidation_too_small',
+  InsufficientFunds = 'insufficient_funds',
+  FlashLoan = 'flash_loan',
+  Unknown = 'unknown',
+}
+
+export enum RetryAction {
+  // move on to the next obligation
+  Skip = 'skip',
+  // re-evaluate the obligation and try again in the next slot
+  RetryNextSlot = 'retry_next_slot',
+  // liquidate again but keep the seized collateral instead of redeeming it
+  LiquidateWithoutRedeem = 'liquidate_without_redeem',
+}
+
+export type DecodedFailure = {
+  failureClass: FailureClass;
+  retryAction: RetryAction;
+  // program that failed and its custom error code, when the failure is a custom program error
+  programId?: string;
+  customCode?: number;
+  // set when the lending program failed
+  lendingError?: LendingError;
+  message: string;
+};
+
+const LENDING_ERROR_CLASSES: Partial<Record<LendingError, FailureClass>> = {
+  [LendingError.ObligationHealthy]: FailureClass.ObligationHealthy,
+  [LendingError.InsufficientLiquidity]: FailureClass.InsufficientLiquidity,
+  [LendingError.WithdrawTooLarge]: FailureClass.InsufficientLiquidity,
+  [LendingError.ReserveStale]: FailureClass.StaleReserve,
+  [LendingError.ObligationStale]: FailureClass.StaleReserve,
+  [LendingError.InvalidOracleConfig]: FailureClass.StaleOracle,
+  [LendingError.NullOracleConfig]: FailureClass.StaleOracle,
+  [LendingError.SwitchboardV2Error]: FailureClass.StaleOracle,
+  [LendingError.RepayTooSmall]: FailureClass.LiquidationTooSmall,
+  [LendingError.LiquidationTooSmall]: FailureClass.LiquidationTooSmall,
+  [LendingError.WithdrawTooSmall]: FailureClass.LiquidationTooSmall,
+  [LendingError.TokenTransferFailed]: FailureClass.InsufficientFunds,
+  [LendingError.NotEnoughLiquidityAfterFlashLoan]: FailureClass.FlashLoan,
+  [LendingError.FlashBorrowCpi]: FailureClass.FlashLoan,
+  [LendingError.NoFlashRepayFound]: FailureClass.FlashLoan,
+  [LendingError.InvalidFlashRepay]: FailureClass.FlashLoan,
+  [LendingError.FlashRepayCpi]: FailureClass.FlashLoan,
+  [LendingError.MultipleFlashBorrows]: FailureClass.FlashLoan,
+  [LendingError.FlashLoansDisabled]: FailureClass.FlashLoan,
+};
+
+// Log patterns of failures outside the lending program, or the lending program's own messages
+// when its error code is too generic
+const LOG_CLASSES: [RegExp, FailureClass][] = [
+  [/slippage/i, FailureClass.Slippage],
+  [/oracle.*stale|stale.*(oracle|price)/i, FailureClass.StaleOracle],
+  [/insufficient (funds|lamports)|InsufficientFundsForFee/i, FailureClass.InsufficientFunds],
+];
+
+export const RETRY_POLICY: Record<FailureClass, RetryAction> = {
+  [FailureClass.ObligationHealthy]: RetryAction.Skip,
+  [FailureClass.InsufficientLiquidity]: RetryAction.LiquidateWithoutRedeem,
+  [FailureClass.StaleReserve]: RetryAction.RetryNextSlot,
+  [FailureClass.StaleOracle]: RetryAction.RetryNextSlot,
+  [FailureClass.Slippage]: RetryAction.RetryNextSlot,
+  [FailureClass.LiquidationTooSmall]: RetryAction.Skip,
+  [FailureClass.InsufficientFunds]: RetryAction.Skip,
+  [FailureClass.FlashLoan]: RetryAction.Skip,
+  [FailureClass.Unknown]: RetryAction.Skip,
+};
+
+const FAILED_PROGRAM_LOG = /Program (\w+) failed: custom program error: 0x([0-9a-fA-F]+)/;
+const CUSTOM_ERROR_MESSAGE = /custom program error: 0x([0-9a-fA-F]+)/;
+
+// Finds the program that failed and its custom error code, from the logs when there are any,
+// from the transaction error or preflight error message otherwise
+function findCustomError(error: any, logs: string[]) {
+  for (const log of logs) {
+    const match = log.match(FAILED_PROGRAM_LOG);
+    if (match) {
+      return { programId: match[1], customCode: parseInt(match[2], 16) };
+    }
+  }
+  const custom = error?.InstructionError?.[1]?.Custom;
+  if (typeof custom === 'number') {
+    return { programId: undefined, customCode: custom };
+  }
+  const match = typeof error === 'string' ? error.match(CUSTOM_ERROR_MESSAGE) : null;
+  if (match) {
+    return { programId: undefined, customCode: parseInt(match[1], 16) };
+  }
+  return undefined;
+}
+
+// Classifies a failed transaction from its error, i.e. the transaction error of a landed
+// transaction or the preflight error message, and its logs. Custom codes are attributed to the
+// lending program when the logs don't say which program failed.
+export function decodeFailure(
+  error: any,
+  logs: string[] = [],
+  lendingProgramId: string = getProgramIdForCurrentDeployment(),
+): DecodedFailure {
+  const message = typeof error === 'string' ? error : JSON.stringify(error);
+  const custom = findCustomError(error, logs);
+
+  let failureClass = FailureClass.Unknown;
+  let lendingError: LendingError | undefined;
+  if (custom && (custom.programId ?? lendingProgramId) === lendingProgramId
+    && LendingError[custom.customCode] !== undefined) {
+    lendingError = custom.customCode as LendingError;
+    failureClass = LENDING_ERROR_CLASSES[lendingError] ?? FailureClass.Unknown;
+  }
+  if (failureClass === FailureClass.Unknown) {
+    const text = [message, ...logs].join('\n');
+    const logClass = LOG_CLASSES.find(([pattern]) => pattern.test(text));
+    if (logClass) {
+      [, failureClass] = logClass;
+    }
+  }
+
+  return {
+    failureClass,
+    retryAction: RETRY_POLICY[failureClass],
+    programId: custom?.programId,
+    customCode: custom?.customCode,
+    lendingError,
+    message,
+  };
+}
+
+export function describeFailure(failure: DecodedFailure) {
+  let code = '';
+  if (failure.lendingError !== undefined) {
+    code = ` (${LendingError[failure.lendingError]})`;
+  } else if (failure.customCode !== undefined) {
+    code = ` (custom error ${failure.customCode}${failure.programId ? ` in ${failure.programId}` : ''})`;
+  }
+  return `${failure.failureClass}${code}, ${failure.retryAction}: ${failure.message}`;
+}
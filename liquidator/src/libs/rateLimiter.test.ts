@@ -0,0 +1,156 @@
+import { getRateLimiterConfig, RateLimiter } from './rateLimiter';
+
+const fetchMock = jest.fn();
+
+const response = (status: number, retryAfter?: string) => ({
+  status,
+  headers: { get: (name: string) => (name === 'retry-after' && retryAfter) || null },
+});
+
+const body = (method: string) => ({ body: JSON.stringify({ jsonrpc: '2.0', id: 1, method }) });
+
+// lets the resolved promises run without moving the clock
+const flush = async () => {
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+// the fake timers don't move Date.now, which the buckets refill with
+let now = 0;
+const advance = (ms: number) => {
+  now += ms;
+  jest.advanceTimersByTime(ms);
+};
+
+describe('getRateLimiterConfig', () => {
+  afterEach(() => {
+    delete process.env.RPC_RATE_LIMIT;
+    delete process.env.RPC_RATE_LIMITS;
+  });
+
+  it('reads the overall and per method budgets', () => {
+    process.env.RPC_RATE_LIMIT = '40';
+    process.env.RPC_RATE_LIMITS = 'getProgramAccounts:0.5 getAccountInfo:20';
+
+    expect(getRateLimiterConfig()).toEqual({
+      rateLimit: 40,
+      methodRateLimits: { getProgramAccounts: 0.5, getAccountInfo: 20 },
+    });
+  });
+
+  it('rejects budgets that are not positive', () => {
+    ['0', '-1', 'abc'].forEach((rateLimit) => {
+      process.env.RPC_RATE_LIMIT = rateLimit;
+      expect(() => getRateLimiterConfig()).toThrow(`Invalid rate limit for RPC_RATE_LIMIT: ${rateLimit}`);
+    });
+    delete process.env.RPC_RATE_LIMIT;
+
+    ['getAccountInfo:0', 'getAccountInfo:'].forEach((rateLimits) => {
+      process.env.RPC_RATE_LIMITS = rateLimits;
+      expect(() => getRateLimiterConfig()).toThrow('Invalid rate limit for getAccountInfo');
+    });
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+    jest.useFakeTimers();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('holds requests beyond the budget until the bucket refills', async () => {
+    const limiter = new RateLimiter({ rateLimit: 2, methodRateLimits: {} });
+    const acquired: number[] = [];
+    [1, 2, 3].forEach((i) => limiter.acquire('getAccountInfo').then(() => acquired.push(i)));
+
+    await flush();
+    expect(acquired).toEqual([1, 2]);
+
+    advance(499);
+    await flush();
+    expect(acquired).toEqual([1, 2]);
+
+    advance(1);
+    await flush();
+    expect(acquired).toEqual([1, 2, 3]);
+  });
+
+  it('dispatches waiting requests by priority and lets other methods past an empty method bucket', async () => {
+    const limiter = new RateLimiter({ rateLimit: 1, methodRateLimits: { getProgramAccounts: 1 } });
+    const acquired: string[] = [];
+    const acquire = (method: string) => limiter.acquire(method).then(() => acquired.push(method));
+
+    acquire('getMultipleAccounts');
+    ['getProgramAccounts', 'getMultipleAccounts', 'sendTransaction'].forEach(acquire);
+    await flush();
+    expect(acquired).toEqual(['getMultipleAccounts']);
+
+    advance(1000);
+    await flush();
+    advance(1000);
+    await flush();
+    advance(1000);
+    await flush();
+    expect(acquired).toEqual(['getMultipleAccounts', 'sendTransaction', 'getMultipleAccounts', 'getProgramAccounts']);
+
+    // a method bucket only holds up its own method
+    const methodLimiter = new RateLimiter({ rateLimit: undefined, methodRateLimits: { getProgramAccounts: 1 } });
+    const methodAcquired: string[] = [];
+    ['getProgramAccounts', 'getProgramAccounts', 'getAccountInfo'].forEach(
+      (method) => methodLimiter.acquire(method).then(() => methodAcquired.push(method)),
+    );
+    await flush();
+    expect(methodAcquired).toEqual(['getProgramAccounts', 'getAccountInfo']);
+  });
+
+  it('pauses for Retry-After on a 429 and retries the request at a lower rate', async () => {
+    const limiter = new RateLimiter({ rateLimit: 10, methodRateLimits: {} }, fetchMock);
+    fetchMock
+      .mockResolvedValueOnce(response(429, '2'))
+      .mockResolvedValueOnce(response(200));
+
+    const result = limiter.fetch('http://rpc', body('getAccountInfo'));
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(limiter.factor).toBe(0.5);
+
+    advance(1999);
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    advance(1);
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((await result).status).toBe(200);
+    expect(limiter.factor).toBe(0.52);
+  });
+
+  it('backs off exponentially without Retry-After and gives up after the last retry', async () => {
+    const limiter = new RateLimiter({ rateLimit: undefined, methodRateLimits: {} }, fetchMock);
+    fetchMock.mockResolvedValue(response(429));
+
+    const result = limiter.fetch('http://rpc', body('getAccountInfo'));
+    const pauses = [500, 1000, 2000, 4000, 8000];
+    for (const [i, pauseMs] of pauses.entries()) {
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(i + 1);
+      advance(pauseMs - 1);
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(i + 1);
+      advance(1);
+    }
+    await flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect((await result).status).toBe(429);
+    expect(limiter.factor).toBe(0.1);
+  });
+});
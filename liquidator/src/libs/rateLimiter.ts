@@ -0,0 +1,245 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import nodeFetch from 'node-fetch';
+import { getLogger } from './logger';
+import { rpcRateLimited } from './metrics';
+
+const logger = getLogger('rateLimiter');
+
+// retries of a request the endpoint rate limited, before its 429 is returned
+const MAX_RATE_LIMIT_RETRIES = 5;
+// pause after a 429 without Retry-After, doubled on every consecutive one
+const DEFAULT_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+// share of the budgets in use after 429s, halved on each and recovered by RATE_INCREASE per success
+const MIN_RATE_FACTOR = 0.1;
+const RATE_INCREASE = 0.02;
+
+// Lower values are dispatched first. Transactions are sent, and obligations re-fetched after a
+// liquidation, ahead of everything else, and bulk scans last.
+const METHOD_PRIORITIES: Record<string, number> = {
+  sendTransaction: 0,
+  sendRawTransaction: 0,
+  getSignatureStatuses: 1,
+  getBlockHeight: 1,
+  getLatestBlockhash: 1,
+  getAccountInfo: 1,
+  getProgramAccounts: 3,
+};
+const DEFAULT_PRIORITY = 2;
+
+export type RateLimiterConfig = {
+  // requests per second over every method, unlimited when undefined
+  rateLimit?: number;
+  // requests per second per method, on top of rateLimit
+  methodRateLimits: Record<string, number>;
+};
+
+// a budget of zero would never refill its bucket
+const readRateLimit = (name: string, value: string) => {
+  const rateLimit = Number(value);
+  if (!Number.isFinite(rateLimit) || rateLimit <= 0) {
+    throw new Error(`Invalid rate limit for ${name}: ${value}. Must be a positive number`);
+  }
+  return rateLimit;
+};
+
+// Reads RPC_RATE_LIMIT as the overall budget and RPC_RATE_LIMITS as per method budgets in the
+// format "<method>:<requests per second> ...", e.g. "getProgramAccounts:1 getAccountInfo:20"
+export function getRateLimiterConfig(): RateLimiterConfig {
+  const methodRateLimits: Record<string, number> = {};
+  (process.env.RPC_RATE_LIMITS || '').split(' ').forEach((entry) => {
+    const [method, rateLimit] = entry.split(':');
+    if (method && rateLimit !== undefined) {
+      methodRateLimits[method] = readRateLimit(method, rateLimit);
+    }
+  });
+  return {
+    rateLimit: process.env.RPC_RATE_LIMIT
+      ? readRateLimit('RPC_RATE_LIMIT', process.env.RPC_RATE_LIMIT)
+      : undefined,
+    methodRateLimits,
+  };
+}
+
+// Holds up to one second of requests, refilled continuously
+class TokenBucket {
+  rate: number;
+
+  tokens: number;
+
+  updatedAt = Date.now();
+
+  constructor(rate: number) {
+    this.rate = rate;
+    this.tokens = Math.max(rate, 1);
+  }
+
+  refill(now: number, factor: number) {
+    const rate = this.rate * factor;
+    this.tokens = Math.min(Math.max(rate, 1), this.tokens + ((now - this.updatedAt) / 1000) * rate);
+    this.updatedAt = now;
+  }
+
+  // ms until a token is available at the current rate
+  waitTime(factor: number) {
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / (this.rate * factor)) * 1000);
+  }
+}
+
+type PendingRequest = {
+  method: string;
+  priority: number;
+  resolve: () => void;
+};
+
+// The JSON RPC method of a request body, the first one of a batch
+const getMethod = (body: unknown) => {
+  try {
+    const request = JSON.parse(String(body));
+    return (Array.isArray(request) ? request[0]?.method : request?.method) || 'unknown';
+  } catch (err) {
+    return 'unknown';
+  }
+};
+
+// Seconds or an HTTP date, in ms from now
+const parseRetryAfter = (retryAfter: string | null) => {
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+// Token bucket rate limiter for the requests of one RPC endpoint, as a fetch for Connection.
+// Requests wait for a token of the overall and of their method's bucket, highest priority first.
+// On a 429 every request is paused for Retry-After, or an exponential backoff, the budgets are
+// halved and recover gradually, and the request is retried.
+export class RateLimiter {
+  bucket: TokenBucket | undefined;
+
+  methodBuckets: Record<string, TokenBucket> = {};
+
+  queue: PendingRequest[] = [];
+
+  factor = 1;
+
+  pausedUntil = 0;
+
+  backoffMs = DEFAULT_BACKOFF_MS;
+
+  timer: NodeJS.Timeout | undefined;
+
+  // sends the requests once they may go
+  send: (url: any, init?: any) => Promise<any>;
+
+  constructor(config: RateLimiterConfig = getRateLimiterConfig(), send = nodeFetch) {
+    this.send = send;
+    if (config.rateLimit) {
+      this.bucket = new TokenBucket(config.rateLimit);
+    }
+    Object.keys(config.methodRateLimits).forEach((method) => {
+      this.methodBuckets[method] = new TokenBucket(config.methodRateLimits[method]);
+    });
+  }
+
+  // Resolves once the request may be sent
+  acquire(method: string) {
+    return new Promise<void>((resolve) => {
+      const priority = METHOD_PRIORITIES[method] ?? DEFAULT_PRIORITY;
+      // after the queued requests of the same or higher priority
+      const index = this.queue.findIndex((request) => request.priority > priority);
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, { method, priority, resolve });
+      this.dispatch();
+    });
+  }
+
+  dispatch() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.schedule(this.pausedUntil - now);
+      return;
+    }
+    this.bucket?.refill(now, this.factor);
+    Object.values(this.methodBuckets).forEach((bucket) => bucket.refill(now, this.factor));
+
+    const waitTimes: number[] = [];
+    for (let i = 0; i < this.queue.length;) {
+      if (this.bucket && this.bucket.tokens < 1) {
+        waitTimes.push(this.bucket.waitTime(this.factor));
+        break;
+      }
+      const request = this.queue[i];
+      const methodBucket = this.methodBuckets[request.method];
+      if (methodBucket && methodBucket.tokens < 1) {
+        // lower priority requests of other methods may still go
+        waitTimes.push(methodBucket.waitTime(this.factor));
+        i += 1;
+      } else {
+        if (this.bucket) {
+          this.bucket.tokens -= 1;
+        }
+        if (methodBucket) {
+          methodBucket.tokens -= 1;
+        }
+        this.queue.splice(i, 1);
+        request.resolve();
+      }
+    }
+    if (this.queue.length) {
+      this.schedule(Math.min(...waitTimes));
+    }
+  }
+
+  schedule(ms: number) {
+    this.timer = setTimeout(() => this.dispatch(), Math.max(ms, 1));
+  }
+
+  onRateLimited(method: string, retryAfterMs: number | undefined) {
+    const pauseMs = retryAfterMs ?? this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+    this.factor = Math.max(this.factor / 2, MIN_RATE_FACTOR);
+    rpcRateLimited.inc({ method });
+    logger.warn('rate limited', { method, pauseMs, rateFactor: this.factor });
+  }
+
+  onSuccess() {
+    this.backoffMs = DEFAULT_BACKOFF_MS;
+    this.factor = Math.min(this.factor + RATE_INCREASE, 1);
+  }
+
+  fetch = async (url: any, init?: any): Promise<any> => {
+    const method = getMethod(init?.body);
+    for (let retries = 0; ; retries += 1) {
+      await this.acquire(method);
+      const response = await this.send(url, init);
+      if (response.status !== 429) {
+        this.onSuccess();
+        return response;
+      }
+      this.onRateLimited(method, parseRetryAfter(response.headers.get('retry-after')));
+      if (retries >= MAX_RATE_LIMIT_RETRIES) {
+        return response;
+      }
+    }
+  };
+}
+
+// A connection whose requests go through a rate limiter of their own
+export function createConnection(endpoint: string, commitment: Commitment) {
+  return new Connection(endpoint, {
+    commitment,
+    fetch: new RateLimiter().fetch,
+    // the limiter retries rate limited requests itself
+    disableRetryOnRateLimit: true,
+  });
+}
@@ -0,0 +1,116 @@
+import { NATIVE_MINT } from '@solana/spl-token';
+import { Keypair, TokenBalance } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { TokenOracleData } from './oracle';
+import { getRealizedProfit, RealizedProfitMeta, TOKEN_ACCOUNT_RENT_LAMPORTS } from './realizedProfit';
+
+const PAYER = Keypair.generate().publicKey.toBase58();
+const OTHER = Keypair.generate().publicKey.toBase58();
+const SOL = NATIVE_MINT.toBase58();
+const USDC = Keypair.generate().publicKey.toBase58();
+const CSOL = Keypair.generate().publicKey.toBase58();
+
+// 5000 lamports per signature and a priority fee of 10000 lamports
+const FEE = 15000;
+
+const tokensOracle = [
+  { symbol: 'SOL', mintAddress: SOL, decimals: new BigNumber(10 ** 9), price: new BigNumber(100) },
+  { symbol: 'USDC', mintAddress: USDC, decimals: new BigNumber(10 ** 6), price: new BigNumber(1) },
+] as TokenOracleData[];
+
+const tokenBalance = (accountIndex: number, mint: string, amount: number, owner = PAYER): TokenBalance => ({
+  accountIndex,
+  mint,
+  owner,
+  uiTokenAmount: {
+    amount: amount.toString(), decimals: 0, uiAmount: amount, uiAmountString: amount.toString(),
+  },
+});
+
+// The payer repays 162 USDC and receives 1.701 SOL in its wrapped SOL account, which is created
+// by the transaction like its cSOL account. Account 1 is the payer's USDC account, 4 the USDC
+// account of someone else.
+const liquidationMeta: RealizedProfitMeta = {
+  fee: FEE,
+  preBalances: [1000000000, TOKEN_ACCOUNT_RENT_LAMPORTS, 0, 0, TOKEN_ACCOUNT_RENT_LAMPORTS],
+  postBalances: [
+    1000000000 - FEE - 2 * TOKEN_ACCOUNT_RENT_LAMPORTS,
+    TOKEN_ACCOUNT_RENT_LAMPORTS,
+    TOKEN_ACCOUNT_RENT_LAMPORTS + 1701000000,
+    TOKEN_ACCOUNT_RENT_LAMPORTS,
+    TOKEN_ACCOUNT_RENT_LAMPORTS,
+  ],
+  preTokenBalances: [
+    tokenBalance(1, USDC, 1000000000),
+    tokenBalance(4, USDC, 5000000, OTHER),
+  ],
+  postTokenBalances: [
+    tokenBalance(1, USDC, 838000000),
+    tokenBalance(2, SOL, 1701000000),
+    tokenBalance(3, CSOL, 0),
+    tokenBalance(4, USDC, 167000000, OTHER),
+  ],
+};
+
+describe('getRealizedProfit', () => {
+  it('values the balance changes of the payer, fee and rent of created accounts included', () => {
+    const realized = getRealizedProfit(liquidationMeta, PAYER, tokensOracle);
+
+    expect(realized.legs).toEqual(expect.arrayContaining([
+      {
+        mint: USDC, symbol: 'USDC', change: '-162000000', value: '-162.000000',
+      },
+      {
+        mint: SOL, symbol: 'SOL', change: '1701000000', value: '170.100000',
+      },
+      {
+        mint: CSOL, symbol: null, change: '0', value: null,
+      },
+    ]));
+    expect(realized.legs).toHaveLength(3);
+    expect(realized.feeLamports).toBe(FEE);
+    expect(realized.solChangeLamports).toBe(-FEE - 2 * TOKEN_ACCOUNT_RENT_LAMPORTS);
+    expect(realized.solValue.toFixed(6)).toBe('-0.409356');
+    expect(realized.profit.toFixed(6)).toBe('7.690644');
+  });
+
+  it('counts the rent exemption of a created wrapped SOL account as rent, not what it wraps', () => {
+    expect(getRealizedProfit(liquidationMeta, PAYER, tokensOracle).rentLamports)
+      .toBe(2 * TOKEN_ACCOUNT_RENT_LAMPORTS);
+  });
+
+  it('pays no rent for existing accounts', () => {
+    const realized = getRealizedProfit({
+      ...liquidationMeta,
+      preBalances: [1000000000, TOKEN_ACCOUNT_RENT_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS,
+        TOKEN_ACCOUNT_RENT_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS],
+      postBalances: [1000000000 - FEE, TOKEN_ACCOUNT_RENT_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS + 1701000000,
+        TOKEN_ACCOUNT_RENT_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS],
+      preTokenBalances: [
+        ...liquidationMeta.preTokenBalances!,
+        tokenBalance(2, SOL, 0),
+        tokenBalance(3, CSOL, 0),
+      ],
+    }, PAYER, tokensOracle);
+
+    expect(realized.rentLamports).toBe(0);
+    expect(realized.solChangeLamports).toBe(-FEE);
+    expect(realized.profit.toFixed(6)).toBe('8.098500');
+  });
+
+  it('values tokens without an oracle at the given mint prices', () => {
+    const realized = getRealizedProfit({
+      ...liquidationMeta,
+      postTokenBalances: [
+        tokenBalance(1, USDC, 838000000),
+        tokenBalance(3, CSOL, 1701000000),
+      ],
+    }, PAYER, tokensOracle, {
+      [CSOL]: { symbol: 'cSOL', unitPrice: new BigNumber('0.0000001') },
+    });
+
+    expect(realized.legs).toContainEqual({
+      mint: CSOL, symbol: 'cSOL', change: '1701000000', value: '170.100000',
+    });
+  });
+});
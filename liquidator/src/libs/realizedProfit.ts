@@ -0,0 +1,123 @@
+import { NATIVE_MINT } from '@solana/spl-token';
+import { ConfirmedTransactionMeta, TokenBalance } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { findWhere } from 'underscore';
+import { TokenOracleData } from './oracle';
+import { getUnitPrice } from './simulation';
+
+// The parts of a fetched transaction's meta realized profit is computed from, as returned by
+// getTransaction, so that captured transaction JSON can be replayed
+export type RealizedProfitMeta = Pick<ConfirmedTransactionMeta, 'fee'
+| 'preBalances'
+| 'postBalances'
+| 'preTokenBalances'
+| 'postTokenBalances'>;
+
+// Price of a token missing from the oracle data, e.g. the collateral kept by a liquidation
+// without redeem
+export type MintPrice = {
+  symbol: string;
+  // USD value of one base unit
+  unitPrice: BigNumber;
+};
+
+export type RealizedLeg = {
+  mint: string;
+  symbol: string | null;
+  // base units
+  change: string;
+  // USD, null when the mint has no price
+  value: string | null;
+};
+
+export type RealizedProfit = {
+  legs: RealizedLeg[];
+  feeLamports: number;
+  // paid to create the payer's token accounts
+  rentLamports: number;
+  // change of the payer's SOL balance, fee and rent included
+  solChangeLamports: number;
+  solValue: BigNumber;
+  // USD, the SOL change and every priced leg
+  profit: BigNumber;
+};
+
+// rent exemption of a 165 byte SPL token account. A wrapped SOL account holds the wrapped amount
+// on top of it, which is a token balance rather than rent.
+export const TOKEN_ACCOUNT_RENT_LAMPORTS = 2039280;
+
+const sumBalances = (balances: TokenBalance[], payer: string) => {
+  const amounts = new Map<string, BigNumber>();
+  balances
+    .filter((balance) => balance.owner === payer)
+    .forEach((balance) => {
+      amounts.set(
+        balance.mint,
+        (amounts.get(balance.mint) || new BigNumber(0)).plus(balance.uiTokenAmount.amount),
+      );
+    });
+  return amounts;
+};
+
+// Realized profit of a landed transaction from the balance changes of the payer's token accounts
+// and SOL balance. The payer is the fee payer, i.e. the first account of the transaction. Each leg
+// is valued at the oracle prices, or mintPrices for tokens without an oracle.
+export function getRealizedProfit(
+  meta: RealizedProfitMeta,
+  payer: string,
+  tokensOracle: TokenOracleData[],
+  mintPrices: Record<string, MintPrice> = {},
+): RealizedProfit {
+  const pre = sumBalances(meta.preTokenBalances || [], payer);
+  const post = sumBalances(meta.postTokenBalances || [], payer);
+  const mints = [...new Set([...pre.keys(), ...post.keys()])].sort();
+
+  const legs = mints.map((mint) => {
+    const change = (post.get(mint) || new BigNumber(0)).minus(pre.get(mint) || 0);
+    const oracle: TokenOracleData | undefined = findWhere(tokensOracle, { mintAddress: mint });
+    let symbol: string | null = null;
+    let unitPrice: BigNumber | null = null;
+    if (oracle) {
+      symbol = oracle.symbol;
+      unitPrice = getUnitPrice(tokensOracle, mint);
+    } else if (mintPrices[mint]) {
+      symbol = mintPrices[mint].symbol;
+      unitPrice = mintPrices[mint].unitPrice;
+    }
+    return {
+      mint,
+      symbol,
+      change,
+      value: unitPrice && change.multipliedBy(unitPrice),
+    };
+  });
+
+  // token accounts of the payer that didn't hold any lamports before the transaction
+  const createdAccounts = new Set(
+    (meta.postTokenBalances || [])
+      .filter((balance) => balance.owner === payer && meta.preBalances[balance.accountIndex] === 0)
+      .map((balance) => balance.accountIndex),
+  );
+  const rentLamports = [...createdAccounts].reduce(
+    (rent, accountIndex) => rent + Math.min(meta.postBalances[accountIndex], TOKEN_ACCOUNT_RENT_LAMPORTS),
+    0,
+  );
+
+  const solChangeLamports = meta.postBalances[0] - meta.preBalances[0];
+  const solValue = getUnitPrice(tokensOracle, NATIVE_MINT.toBase58())
+    .multipliedBy(solChangeLamports);
+
+  return {
+    legs: legs.map((leg) => ({
+      mint: leg.mint,
+      symbol: leg.symbol,
+      change: leg.change.toFixed(0),
+      value: leg.value ? leg.value.toFixed(6) : null,
+    })),
+    feeLamports: meta.fee,
+    rentLamports,
+    solChangeLamports,
+    solValue,
+    profit: legs.reduce((profit, leg) => profit.plus(leg.value || 0), solValue),
+  };
+}
@@ -0,0 +1,119 @@
+import { Account, Keypair } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { FakeConnection } from './fakeConnection';
+import { MockSwapProvider } from './mockSwapProvider';
+import { TokenOracleData } from './oracle';
+import { getRebalanceSwaps, rebalanceWallet, WalletBalance } from './rebalanceWallet';
+
+const SOL = Keypair.generate().publicKey.toBase58();
+const USDC = Keypair.generate().publicKey.toBase58();
+const ETH = Keypair.generate().publicKey.toBase58();
+
+const tokensOracle = [
+  { symbol: 'SOL', mintAddress: SOL, decimals: new BigNumber(10 ** 9), price: new BigNumber(100) },
+  { symbol: 'USDC', mintAddress: USDC, decimals: new BigNumber(10 ** 6), price: new BigNumber(1) },
+  { symbol: 'ETH', mintAddress: ETH, decimals: new BigNumber(10 ** 8), price: new BigNumber(2000) },
+] as TokenOracleData[];
+
+const walletBalance = (symbol: string, balance: number): WalletBalance => {
+  const tokenOracle = tokensOracle.find((oracle) => oracle.symbol === symbol)!;
+  return {
+    symbol,
+    balance,
+    balanceBase: tokenOracle.decimals.multipliedBy(balance).toNumber(),
+  };
+};
+
+const newSwapProvider = () => new MockSwapProvider({
+  [SOL]: new BigNumber(100).dividedBy(10 ** 9),
+  [USDC]: new BigNumber(1).dividedBy(10 ** 6),
+  [ETH]: new BigNumber(2000).dividedBy(10 ** 8),
+});
+
+describe('getRebalanceSwaps', () => {
+  it('only swaps tokens outside the padding band', () => {
+    const targets = [{ symbol: 'SOL', target: 10 }];
+    const swapsFor = (balance: number) => getRebalanceSwaps(
+      [walletBalance('SOL', balance)],
+      tokensOracle,
+      targets,
+      0.2,
+    );
+
+    expect(swapsFor(12)).toEqual([]);
+    expect(swapsFor(8)).toEqual([]);
+
+    const [sell] = swapsFor(12.1);
+    expect(sell.side).toBe('sell');
+    expect(sell.amount.toString()).toBe('2.1');
+    expect(sell.amountUSD.toString()).toBe('210');
+
+    const [buy] = swapsFor(7.9);
+    expect(buy.side).toBe('buy');
+    expect(buy.amount.toString()).toBe('2.1');
+  });
+
+  it('puts sells before buys regardless of their value', () => {
+    const swaps = getRebalanceSwaps(
+      [walletBalance('SOL', 12), walletBalance('ETH', 0.5), walletBalance('USDC', 0)],
+      tokensOracle,
+      [{ symbol: 'ETH', target: 1 }, { symbol: 'SOL', target: 10 }, { symbol: 'USDC', target: 1000 }],
+      0.1,
+    );
+
+    expect(swaps.map(({ side, symbol }) => `${side} ${symbol}`)).toEqual(['sell SOL', 'buy ETH']);
+  });
+});
+
+describe('rebalanceWallet', () => {
+  const payer = new Account();
+
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('funds buys with the USDC the sells free up', async () => {
+    const swapProvider = newSwapProvider();
+
+    await rebalanceWallet(
+      new FakeConnection(),
+      payer,
+      swapProvider,
+      tokensOracle,
+      [walletBalance('USDC', 0), walletBalance('SOL', 15), walletBalance('ETH', 0.8)],
+      [{ symbol: 'SOL', target: 10 }, { symbol: 'ETH', target: 1 }],
+      0.1,
+    );
+
+    expect(swapProvider.swaps.map(({ quote }) => quote)).toEqual([
+      expect.objectContaining({
+        inputMint: SOL, outputMint: USDC, inAmount: '5000000000', minOutAmount: '497500000',
+      }),
+      expect.objectContaining({
+        inputMint: USDC, outputMint: ETH, inAmount: '400000000', outAmount: '20000000',
+      }),
+    ]);
+    expect(swapProvider.swaps.every((swap) => swap.payer === payer.publicKey.toBase58())).toBe(true);
+  });
+
+  it('skips buys the USDC balance cannot cover', async () => {
+    const swapProvider = newSwapProvider();
+
+    await rebalanceWallet(
+      new FakeConnection(),
+      payer,
+      swapProvider,
+      tokensOracle,
+      [walletBalance('USDC', 100), walletBalance('SOL', 9), walletBalance('ETH', 0.8)],
+      [{ symbol: 'SOL', target: 10 }, { symbol: 'ETH', target: 1 }],
+      0.05,
+    );
+
+    // buying 0.2 ETH needs 400 USDC, so only the 100 USDC of SOL goes through
+    expect(swapProvider.swaps.map(({ quote }) => quote)).toEqual([
+      expect.objectContaining({
+        inputMint: USDC, outputMint: SOL, inAmount: '100000000', outAmount: '1000000000',
+      }),
+    ]);
+  });
+});
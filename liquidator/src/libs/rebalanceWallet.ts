@@ -0,0 +1,167 @@
+import { Account } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { TokenCount } from 'global';
+import { findWhere } from 'underscore';
+import { getLogger } from './logger';
+import { TokenOracleData } from './oracle';
+import { SenderConnection } from './sender';
+import { getSwapSlippageBps, SwapProvider } from './swap';
+
+const logger = getLogger('rebalanceWallet');
+
+// USDC is the base token every other token is bought with and sold for
+export const BASE_TOKEN_SYMBOL = 'USDC';
+const DEFAULT_REBALANCE_PADDING = 0.2;
+
+export type WalletBalance = {
+  balance: number;
+  balanceBase: number;
+  symbol: string;
+};
+
+export type RebalanceSwap = {
+  side: 'buy' | 'sell';
+  symbol: string;
+  // token units of the rebalanced token to buy or sell
+  amount: BigNumber;
+  amountUSD: BigNumber;
+};
+
+export function getRebalancePadding() {
+  return process.env.REBALANCE_PADDING
+    ? Number(process.env.REBALANCE_PADDING)
+    : DEFAULT_REBALANCE_PADDING;
+}
+
+// Works out which swaps bring the wallet back to its targets. A token is only swapped once it
+// leaves the band target * (1 +/- padding). Sells come first so that the USDC they free up
+// can fund the buys.
+export function getRebalanceSwaps(
+  walletBalances: WalletBalance[],
+  tokensOracle: TokenOracleData[],
+  targets: TokenCount[],
+  padding: number,
+): RebalanceSwap[] {
+  const swaps: RebalanceSwap[] = [];
+
+  targets.forEach((tokenCount) => {
+    const symbol = tokenCount.symbol.toString();
+    const { target } = tokenCount;
+    if (symbol === BASE_TOKEN_SYMBOL) {
+      return;
+    }
+    const tokenOracle: TokenOracleData | undefined = findWhere(tokensOracle, { symbol });
+    const walletBalance: WalletBalance | undefined = findWhere(walletBalances, { symbol });
+    if (!tokenOracle || !walletBalance || tokenOracle.price.isZero()) {
+      return;
+    }
+
+    // missing token accounts are reported with a negative sentinel balance
+    const balance = new BigNumber(Math.max(walletBalance.balance, 0));
+    const diff = balance.minus(target);
+    if (diff.abs().isLessThanOrEqualTo(new BigNumber(target).multipliedBy(padding))) {
+      return;
+    }
+
+    swaps.push({
+      side: diff.isGreaterThan(0) ? 'sell' : 'buy',
+      symbol,
+      amount: diff.abs(),
+      amountUSD: diff.abs().multipliedBy(tokenOracle.price),
+    });
+  });
+
+  return swaps.sort((a, b) => {
+    if (a.side !== b.side) {
+      return a.side === 'sell' ? -1 : 1;
+    }
+    return b.amountUSD.comparedTo(a.amountUSD);
+  });
+}
+
+const toBase = (amount: BigNumber, tokenOracle: TokenOracleData) => amount
+  .multipliedBy(tokenOracle.decimals)
+  .integerValue(BigNumber.ROUND_DOWN)
+  .toFixed(0);
+
+export async function rebalanceWallet(
+  connection: SenderConnection,
+  payer: Account,
+  swapProvider: SwapProvider,
+  tokensOracle: TokenOracleData[],
+  walletBalances: WalletBalance[],
+  targets: TokenCount[],
+  padding: number = getRebalancePadding(),
+) {
+  const baseTokenOracle: TokenOracleData | undefined = findWhere(tokensOracle, {
+    symbol: BASE_TOKEN_SYMBOL,
+  });
+  const baseTokenBalance: WalletBalance | undefined = findWhere(walletBalances, {
+    symbol: BASE_TOKEN_SYMBOL,
+  });
+  if (!baseTokenOracle || !baseTokenBalance || baseTokenOracle.price.isZero()) {
+    logger.warn('skipping rebalance, base token not available in market', { symbol: BASE_TOKEN_SYMBOL });
+    return;
+  }
+
+  const slippageBps = getSwapSlippageBps();
+  let baseAvailable = new BigNumber(Math.max(baseTokenBalance.balanceBase, 0));
+  const swaps = getRebalanceSwaps(walletBalances, tokensOracle, targets, padding);
+
+  for (const rebalanceSwap of swaps) {
+    const tokenOracle: TokenOracleData = findWhere(tokensOracle, { symbol: rebalanceSwap.symbol })!;
+    try {
+      if (rebalanceSwap.side === 'sell') {
+        const quote = await swapProvider.quote({
+          inputMint: tokenOracle.mintAddress,
+          outputMint: baseTokenOracle.mintAddress,
+          amount: toBase(rebalanceSwap.amount, tokenOracle),
+          slippageBps,
+        });
+        const txHash = await swapProvider.swap(connection, payer, quote);
+        baseAvailable = baseAvailable.plus(quote.minOutAmount);
+        logger.info('rebalance sold', {
+          symbol: rebalanceSwap.symbol,
+          amount: rebalanceSwap.amount.toString(),
+          baseSymbol: BASE_TOKEN_SYMBOL,
+          swapProvider: swapProvider.name,
+          signature: txHash,
+        });
+      } else {
+        const baseAmount = rebalanceSwap.amountUSD.dividedBy(baseTokenOracle.price);
+        const baseAmountBase = new BigNumber(toBase(baseAmount, baseTokenOracle));
+        if (baseAmountBase.isGreaterThan(baseAvailable)) {
+          logger.warn('insufficient balance to rebalance', {
+            baseSymbol: BASE_TOKEN_SYMBOL,
+            baseAvailable: baseAvailable.toFixed(0),
+            baseNeeded: baseAmountBase.toFixed(0),
+            symbol: rebalanceSwap.symbol,
+            amount: rebalanceSwap.amount.toString(),
+          });
+          continue;
+        }
+        const quote = await swapProvider.quote({
+          inputMint: baseTokenOracle.mintAddress,
+          outputMint: tokenOracle.mintAddress,
+          amount: baseAmountBase.toFixed(0),
+          slippageBps,
+        });
+        const txHash = await swapProvider.swap(connection, payer, quote);
+        baseAvailable = baseAvailable.minus(quote.inAmount);
+        logger.info('rebalance bought', {
+          symbol: rebalanceSwap.symbol,
+          amount: rebalanceSwap.amount.toString(),
+          baseSymbol: BASE_TOKEN_SYMBOL,
+          swapProvider: swapProvider.name,
+          signature: txHash,
+        });
+      }
+    } catch (err) {
+      logger.error('rebalance failed', {
+        side: rebalanceSwap.side,
+        symbol: rebalanceSwap.symbol,
+        error: err,
+      });
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { PublicKey } from '@solana/web3.js';
+import { Obligation } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import {
+  calculateRefreshedObligation,
+  isObligationUnhealthy,
+  MAX_LIQUIDATABLE_VALUE_AT_ONCE,
+} from './refreshObligation';
+import { WAD } from './utils';
+
+const SOL = new PublicKey(1);
+const USDC = new PublicKey(2);
+const USDT = new PublicKey(3);
+
+const wads = (amount: BigNumber.Value) => new BN(new BigNumber(amount).multipliedBy(WAD).toFixed());
+
+// A parsed reserve with only what the refresh reads
+const reserve = (
+  pubkey: PublicKey,
+  { addedBorrowWeightBPS = 0, cumulativeBorrowRate = 1, collateralPerLiquidity = 0 } = {},
+) => ({
+  pubkey,
+  info: {
+    liquidity: {
+      availableAmount: new BN(1000000000),
+      borrowedAmountWads: new BN(0),
+      cumulativeBorrowRateWads: wads(cumulativeBorrowRate),
+    },
+    collateral: {
+      // zero for the initial exchange rate of 1
+      mintTotalSupply: new BN(1000000000 * collateralPerLiquidity),
+    },
+    config: {
+      loanToValueRatio: 75,
+      liquidationThreshold: 80,
+      addedBorrowWeightBPS: new BN(addedBorrowWeightBPS),
+    },
+  },
+});
+
+const oracle = (
+  reserveAddress: PublicKey,
+  symbol: string,
+  decimals: number,
+  price: BigNumber.Value,
+  smoothedPrice: BigNumber.Value = price,
+) => ({
+  reserveAddress: reserveAddress.toBase58(),
+  symbol,
+  mintAddress: symbol,
+  decimals: new BigNumber(10 ** decimals),
+  price: new BigNumber(price),
+  smoothedPrice: new BigNumber(smoothedPrice),
+});
+
+// base units of the deposited collateral and borrowed liquidity
+const obligation = (
+  deposits: { reserve: PublicKey; amount: BigNumber.Value }[],
+  borrows: { reserve: PublicKey; amount: BigNumber.Value }[],
+) => ({
+  deposits: deposits.map((deposit) => ({
+    depositReserve: deposit.reserve,
+    depositedAmount: new BN(new BigNumber(deposit.amount).toFixed()),
+  })),
+  borrows: borrows.map((borrow) => ({
+    borrowReserve: borrow.reserve,
+    borrowedAmountWads: wads(borrow.amount),
+    cumulativeBorrowRateWads: wads(1),
+  })),
+} as unknown as Obligation);
+
+describe('calculateRefreshedObligation', () => {
+  const reserves = [reserve(SOL), reserve(USDC), reserve(USDT)];
+  const deposit = [{ reserve: SOL, amount: 10000000000 }];
+  const borrow = [{ reserve: USDC, amount: 500000000 }];
+
+  it('values deposits at the smoothed price when it is lower towards the allowed borrow value only', () => {
+    const refreshed = calculateRefreshedObligation(obligation(deposit, borrow), reserves, [
+      oracle(SOL, 'SOL', 9, 100, 90),
+      oracle(USDC, 'USDC', 6, 1),
+    ]);
+
+    expect(refreshed.depositedValue.toNumber()).toBe(1000);
+    expect(refreshed.allowedBorrowValue.toNumber()).toBe(675);
+    expect(refreshed.unhealthyBorrowValue.toNumber()).toBe(800);
+  });
+
+  it('values deposits at the spot price when the smoothed price is higher', () => {
+    const refreshed = calculateRefreshedObligation(obligation(deposit, borrow), reserves, [
+      oracle(SOL, 'SOL', 9, 100, 110),
+      oracle(USDC, 'USDC', 6, 1),
+    ]);
+
+    expect(refreshed.allowedBorrowValue.toNumber()).toBe(750);
+    expect(refreshed.unhealthyBorrowValue.toNumber()).toBe(800);
+  });
+
+  it('bounds borrows by the higher of the spot and smoothed prices', () => {
+    const higher = calculateRefreshedObligation(obligation(deposit, borrow), reserves, [
+      oracle(SOL, 'SOL', 9, 100),
+      oracle(USDC, 'USDC', 6, 1, 1.1),
+    ]);
+    expect(higher.borrowedValue.toNumber()).toBe(500);
+    expect(higher.borrowedValueUpperBound.toNumber()).toBe(550);
+
+    const lower = calculateRefreshedObligation(obligation(deposit, borrow), reserves, [
+      oracle(SOL, 'SOL', 9, 100),
+      oracle(USDC, 'USDC', 6, 1, 0.9),
+    ]);
+    expect(lower.borrowedValue.toNumber()).toBe(500);
+    expect(lower.borrowedValueUpperBound.toNumber()).toBe(500);
+  });
+
+  it('weighs borrows by the added borrow weight of their reserve', () => {
+    const refreshed = calculateRefreshedObligation(
+      obligation(deposit, borrow),
+      [reserve(SOL), reserve(USDC, { addedBorrowWeightBPS: 5000 })],
+      [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)],
+    );
+
+    expect(refreshed.borrowedValue.toNumber()).toBe(750);
+    expect(refreshed.borrowedValueUpperBound.toNumber()).toBe(750);
+    expect(refreshed.unweightedBorrowedValue.toNumber()).toBe(500);
+    expect(refreshed.borrows[0].marketValue.toNumber()).toBe(500);
+  });
+
+  it('accrues interest up to the cumulative borrow rate of the reserve', () => {
+    const refreshed = calculateRefreshedObligation(
+      obligation(deposit, borrow),
+      [reserve(SOL), reserve(USDC, { cumulativeBorrowRate: 1.1 })],
+      [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)],
+    );
+
+    expect(refreshed.borrows[0].borrowAmountWadsWithInterest.toFixed()).toBe(wads(550000000).toString());
+    expect(refreshed.borrowedValue.toNumber()).toBe(550);
+  });
+
+  it('converts collateral to liquidity at the exchange rate of the reserve', () => {
+    const refreshed = calculateRefreshedObligation(
+      obligation(deposit, borrow),
+      [reserve(SOL, { collateralPerLiquidity: 2 }), reserve(USDC)],
+      [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)],
+    );
+
+    expect(refreshed.depositedValue.toNumber()).toBe(500);
+  });
+
+  it('limits liquidations to the close factor of the borrowed value, capped by the borrow', () => {
+    const refreshed = calculateRefreshedObligation(
+      obligation(deposit, [{ reserve: USDC, amount: 500000000 }, { reserve: USDT, amount: 100000000 }]),
+      reserves,
+      [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1), oracle(USDT, 'USDT', 6, 1)],
+    );
+
+    expect(refreshed.borrowedValue.toNumber()).toBe(600);
+    const [usdc, usdt] = refreshed.borrows;
+    // 20% of $600
+    expect(usdc.maxLiquidationAmountWads.toFixed()).toBe(wads(120000000).toString());
+    // the whole $100 borrow is below the close factor
+    expect(usdt.maxLiquidationAmountWads.toFixed()).toBe(wads(100000000).toString());
+  });
+
+  it('limits liquidations to the maximum value liquidatable at once', () => {
+    const refreshed = calculateRefreshedObligation(
+      obligation([{ reserve: SOL, amount: '100000000000000' }], [{ reserve: USDC, amount: 5000000000000 }]),
+      reserves,
+      [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)],
+    );
+
+    expect(refreshed.borrows[0].maxLiquidationAmountWads.toFixed())
+      .toBe(wads(MAX_LIQUIDATABLE_VALUE_AT_ONCE * 1000000).toString());
+  });
+
+  it('throws for a reserve without token info', () => {
+    expect(() => calculateRefreshedObligation(obligation(deposit, borrow), reserves, [
+      oracle(SOL, 'SOL', 9, 100),
+    ])).toThrow(/Missing token info/);
+  });
+});
+
+describe('isObligationUnhealthy', () => {
+  const reserves = [reserve(SOL), reserve(USDC)];
+  const tokensOracle = [oracle(SOL, 'SOL', 9, 100), oracle(USDC, 'USDC', 6, 1)];
+  const deposit = [{ reserve: SOL, amount: 10000000000 }];
+
+  it('is unhealthy from a borrowed value equal to the unhealthy borrow value', () => {
+    expect(isObligationUnhealthy(calculateRefreshedObligation(
+      obligation(deposit, [{ reserve: USDC, amount: 799999999 }]),
+      reserves,
+      tokensOracle,
+    ))).toBe(false);
+    expect(isObligationUnhealthy(calculateRefreshedObligation(
+      obligation(deposit, [{ reserve: USDC, amount: 800000000 }]),
+      reserves,
+      tokensOracle,
+    ))).toBe(true);
+  });
+
+  it('is healthy without borrows', () => {
+    expect(isObligationUnhealthy(calculateRefreshedObligation(
+      obligation(deposit, []),
+      reserves,
+      tokensOracle,
+    ))).toBe(false);
+  });
+});
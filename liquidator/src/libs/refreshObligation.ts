@@ -1,36 +1,64 @@
 /* eslint-disable @typescript-eslint/no-throw-literal */
-import { PublicKey } from "@solana/web3.js";
+import { PublicKey } from '@solana/web3.js';
 import {
   Obligation,
   ObligationCollateral,
   ObligationLiquidity,
-} from "@solendprotocol/solend-sdk";
-import BigNumber from "bignumber.js";
-import BN from "bn.js";
-import { find, findWhere } from "underscore";
+} from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { find, findWhere } from 'underscore';
 import {
+  bpsToWad,
+  fromWad,
   getCollateralExchangeRate,
-  getLiquidationThresholdRate,
-  getLoanToValueRate,
+  percentToWad,
+  toWad,
   WAD,
-} from "./utils";
+  wadDiv,
+  wadMul,
+} from './utils';
+import { getLogger } from './logger';
+
+const logger = getLogger('refreshObligation');
 
 export const RISKY_OBLIGATION_THRESHOLD = 78;
 
+// Liquidation limits of the Solend program (state/obligation.rs)
+// Percent of an obligation's borrowed value that can be repaid in one liquidation
+export const LIQUIDATION_CLOSE_FACTOR = 20;
+// Borrows of less than this many tokens (base units) are closed out in full
+export const LIQUIDATION_CLOSE_AMOUNT = 2;
+// Max USD value that can be liquidated in one liquidation
+export const MAX_LIQUIDATABLE_VALUE_AT_ONCE = 500000;
+
+// Reserve::market_value: liquidity * price / 10^decimals
+const marketValueWads = (
+  liquidityAmountWads: BigNumber,
+  price: BigNumber,
+  decimals: BigNumber,
+) => wadDiv(wadMul(liquidityAmountWads, toWad(price)), toWad(decimals));
+
 // This function doesn't actually refresh the obligation within the blockchain
 // but does offchain calculation which mimics the actual refreshObligation instruction
 // to optimize of transaction fees.
+//
+// As in the program, deposits count at spot price towards unhealthyBorrowValue and at
+// min(spot, smoothed) towards allowedBorrowValue, while borrows count at spot price
+// towards borrowedValue and at max(spot, smoothed) towards borrowedValueUpperBound, both
+// scaled by the reserve's borrow weight. All values are in USD.
 export function calculateRefreshedObligation(
   obligation: Obligation,
   reserves,
-  tokensOracle
+  tokensOracle,
 ) {
   let depositedValue = new BigNumber(0);
   let borrowedValue = new BigNumber(0);
+  let borrowedValueUpperBound = new BigNumber(0);
+  let unweightedBorrowedValue = new BigNumber(0);
   let allowedBorrowValue = new BigNumber(0);
   let unhealthyBorrowValue = new BigNumber(0);
   const deposits = [] as Deposit[];
-  const borrows = [] as Borrow[];
 
   obligation.deposits.forEach((deposit: ObligationCollateral) => {
     const tokenOracle = findWhere(tokensOracle, {
@@ -39,41 +67,47 @@ export function calculateRefreshedObligation(
     if (!tokenOracle) {
       throw `Missing token info for reserve ${deposit.depositReserve.toString()}, skipping this obligation. Please restart liquidator to fetch latest configs from /v1/config`;
     }
-    const { price, decimals, symbol } = tokenOracle;
+    const { price, smoothedPrice, decimals, symbol } = tokenOracle;
     const reserve = find(
       reserves,
-      (r) => r.pubkey.toString() === deposit.depositReserve.toString()
+      (r) => r.pubkey.toString() === deposit.depositReserve.toString(),
     ).info;
 
     const collateralExchangeRate = getCollateralExchangeRate(reserve);
-    const marketValue = new BigNumber(deposit.depositedAmount.toString())
-      .multipliedBy(WAD)
-      .dividedBy(collateralExchangeRate)
-      .multipliedBy(price)
-      .dividedBy(decimals);
-
-    const loanToValueRate = getLoanToValueRate(reserve);
-    const liquidationThresholdRate = getLiquidationThresholdRate(reserve);
+    const liquidityAmountWads = wadDiv(
+      toWad(deposit.depositedAmount.toString()),
+      collateralExchangeRate,
+    );
+    const marketValue = marketValueWads(liquidityAmountWads, price, decimals);
+    const marketValueLowerBound = marketValueWads(
+      liquidityAmountWads,
+      BigNumber.min(price, smoothedPrice || price),
+      decimals,
+    );
 
     depositedValue = depositedValue.plus(marketValue);
     allowedBorrowValue = allowedBorrowValue.plus(
-      marketValue.multipliedBy(loanToValueRate)
+      wadMul(
+        marketValueLowerBound,
+        percentToWad(reserve.config.loanToValueRatio),
+      ),
     );
     unhealthyBorrowValue = unhealthyBorrowValue.plus(
-      marketValue.multipliedBy(liquidationThresholdRate)
+      wadMul(marketValue, percentToWad(reserve.config.liquidationThreshold)),
     );
 
     deposits.push({
       depositReserve: deposit.depositReserve,
       depositAmount: deposit.depositedAmount,
-      marketValue,
+      marketValue: fromWad(marketValue),
       symbol,
     });
   });
 
-  obligation.borrows.forEach((borrow: ObligationLiquidity) => {
+  // limited by the close factor once the obligation's borrowed value is known
+  const unlimitedBorrows = obligation.borrows.map((borrow: ObligationLiquidity) => {
     const borrowAmountWads = new BigNumber(
-      borrow.borrowedAmountWads.toString()
+      borrow.borrowedAmountWads.toString(),
     );
     const tokenOracle = findWhere(tokensOracle, {
       reserveAddress: borrow.borrowReserve.toString(),
@@ -81,33 +115,57 @@ export function calculateRefreshedObligation(
     if (!tokenOracle) {
       throw `Missing token info for reserve ${borrow.borrowReserve.toString()}, skipping this obligation. Please restart liquidator to fetch latest config from /v1/config.`;
     }
-    const { price, decimals, symbol, mintAddress } = tokenOracle;
+    const { price, smoothedPrice, decimals, symbol, mintAddress } =
+      tokenOracle;
     const reserve = find(
       reserves,
-      (r) => r.pubkey.toString() === borrow.borrowReserve.toString()
+      (r) => r.pubkey.toString() === borrow.borrowReserve.toString(),
     ).info;
     const borrowAmountWadsWithInterest = getBorrrowedAmountWadsWithInterest(
       new BigNumber(reserve.liquidity.cumulativeBorrowRateWads.toString()),
       new BigNumber(borrow.cumulativeBorrowRateWads.toString()),
-      borrowAmountWads
+      borrowAmountWads,
     );
 
-    const marketValue = borrowAmountWadsWithInterest
-      .multipliedBy(price)
-      .dividedBy(decimals);
+    const marketValue = marketValueWads(
+      borrowAmountWadsWithInterest,
+      price,
+      decimals,
+    );
+    const marketValueUpperBound = marketValueWads(
+      borrowAmountWadsWithInterest,
+      BigNumber.max(price, smoothedPrice || price),
+      decimals,
+    );
+    const borrowWeight = WAD.plus(
+      bpsToWad(reserve.config.addedBorrowWeightBPS.toString()),
+    );
 
-    borrowedValue = borrowedValue.plus(marketValue);
+    borrowedValue = borrowedValue.plus(wadMul(marketValue, borrowWeight));
+    borrowedValueUpperBound = borrowedValueUpperBound.plus(
+      wadMul(marketValueUpperBound, borrowWeight),
+    );
+    unweightedBorrowedValue = unweightedBorrowedValue.plus(marketValue);
 
-    borrows.push({
+    return {
       borrowReserve: borrow.borrowReserve,
       borrowAmountWads: borrow.borrowedAmountWads,
+      borrowAmountWadsWithInterest,
       mintAddress,
-      marketValue,
+      marketValue: fromWad(marketValue),
       symbol,
       addedBorrowWeightBPS: reserve.config.addedBorrowWeightBPS,
-    });
+    };
   });
 
+  const borrows: Borrow[] = unlimitedBorrows.map((borrow) => ({
+    ...borrow,
+    maxLiquidationAmountWads: getMaxLiquidationAmountWads(
+      borrow,
+      fromWad(borrowedValue),
+    ),
+  }));
+
   let utilizationRatio = borrowedValue
     .dividedBy(depositedValue)
     .multipliedBy(100)
@@ -115,31 +173,71 @@ export function calculateRefreshedObligation(
   utilizationRatio = Number.isNaN(utilizationRatio) ? 0 : utilizationRatio;
 
   return {
-    depositedValue,
-    borrowedValue,
-    allowedBorrowValue,
-    unhealthyBorrowValue,
+    depositedValue: fromWad(depositedValue),
+    borrowedValue: fromWad(borrowedValue),
+    borrowedValueUpperBound: fromWad(borrowedValueUpperBound),
+    unweightedBorrowedValue: fromWad(unweightedBorrowedValue),
+    allowedBorrowValue: fromWad(allowedBorrowValue),
+    unhealthyBorrowValue: fromWad(unhealthyBorrowValue),
     deposits,
     borrows,
     utilizationRatio,
   };
 }
 
+export type RefreshedObligation = ReturnType<
+  typeof calculateRefreshedObligation
+>;
+
+// The program rejects liquidations with ObligationHealthy only when
+// borrowed_value < unhealthy_borrow_value, so an equal value is liquidatable.
+export function isObligationUnhealthy(refreshedObligation: RefreshedObligation) {
+  return (
+    refreshedObligation.borrows.length > 0 &&
+    refreshedObligation.borrowedValue.isGreaterThanOrEqualTo(
+      refreshedObligation.unhealthyBorrowValue,
+    )
+  );
+}
+
+// Obligation::max_liquidation_amount: at most LIQUIDATION_CLOSE_FACTOR percent of the
+// obligation's (weighted) borrowed value, capped by the borrow's own market value and
+// MAX_LIQUIDATABLE_VALUE_AT_ONCE, converted to borrowed wads pro rata.
+export function getMaxLiquidationAmountWads(
+  borrow: { marketValue: BigNumber; borrowAmountWadsWithInterest: BigNumber },
+  borrowedValue: BigNumber,
+) {
+  const marketValue = toWad(borrow.marketValue);
+  if (marketValue.isZero()) {
+    return new BigNumber(0);
+  }
+  const maxLiquidationValue = BigNumber.min(
+    wadMul(toWad(borrowedValue), percentToWad(LIQUIDATION_CLOSE_FACTOR)),
+    marketValue,
+    toWad(MAX_LIQUIDATABLE_VALUE_AT_ONCE),
+  );
+  const maxLiquidationPct = wadDiv(maxLiquidationValue, marketValue);
+  return wadMul(borrow.borrowAmountWadsWithInterest, maxLiquidationPct);
+}
+
 function getBorrrowedAmountWadsWithInterest(
   reserveCumulativeBorrowRateWads: BigNumber,
   obligationCumulativeBorrowRateWads: BigNumber,
-  obligationBorrowAmountWads: BigNumber
+  obligationBorrowAmountWads: BigNumber,
 ) {
   switch (
     reserveCumulativeBorrowRateWads.comparedTo(
-      obligationCumulativeBorrowRateWads
+      obligationCumulativeBorrowRateWads,
     )
   ) {
     case -1: {
       // less than
-      console.error(`Interest rate cannot be negative.
-        reserveCumulativeBorrowRateWadsNum: ${reserveCumulativeBorrowRateWads.toString()} |
-        obligationCumulativeBorrowRateWadsNum: ${obligationCumulativeBorrowRateWads.toString()}`);
+      logger.error('interest rate cannot be negative', {
+        reserveCumulativeBorrowRateWads:
+          reserveCumulativeBorrowRateWads.toString(),
+        obligationCumulativeBorrowRateWads:
+          obligationCumulativeBorrowRateWads.toString(),
+      });
       return obligationBorrowAmountWads;
     }
     case 0: {
@@ -148,15 +246,19 @@ function getBorrrowedAmountWadsWithInterest(
     }
     case 1: {
       // greater than
-      const compoundInterestRate = reserveCumulativeBorrowRateWads.dividedBy(
-        obligationCumulativeBorrowRateWads
+      const compoundInterestRate = wadDiv(
+        reserveCumulativeBorrowRateWads,
+        obligationCumulativeBorrowRateWads,
       );
-      return obligationBorrowAmountWads.multipliedBy(compoundInterestRate);
+      return wadMul(obligationBorrowAmountWads, compoundInterestRate);
     }
     default: {
-      console.log(`Error: getBorrrowedAmountWadsWithInterest() identified invalid comparator.
-      reserveCumulativeBorrowRateWadsNum: ${reserveCumulativeBorrowRateWads.toString()} |
-      obligationCumulativeBorrowRateWadsNum: ${obligationCumulativeBorrowRateWads.toString()}`);
+      logger.error('invalid cumulative borrow rate comparison', {
+        reserveCumulativeBorrowRateWads:
+          reserveCumulativeBorrowRateWads.toString(),
+        obligationCumulativeBorrowRateWads:
+          obligationCumulativeBorrowRateWads.toString(),
+      });
       return obligationBorrowAmountWads;
     }
   }
@@ -165,13 +267,17 @@ function getBorrrowedAmountWadsWithInterest(
 export type Borrow = {
   borrowReserve: PublicKey;
   borrowAmountWads: BN;
+  // borrowed wads with interest accrued up to the reserve's cumulative borrow rate
+  borrowAmountWadsWithInterest: BigNumber;
   marketValue: BigNumber;
   mintAddress: string;
   symbol: string;
   addedBorrowWeightBPS: BN;
+  // close factor limit of a single liquidation of this borrow, in wads
+  maxLiquidationAmountWads: BigNumber;
 };
 
-type Deposit = {
+export type Deposit = {
   depositReserve: PublicKey;
   depositAmount: BN;
   marketValue: BigNumber;
@@ -0,0 +1,249 @@
+import { Commitment, Connection, SendTransactionError } from '@solana/web3.js';
+import { getLogger } from './logger';
+import { createConnection } from './rateLimiter';
+
+const logger = getLogger('rpcPool');
+
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 5000;
+const DEFAULT_MAX_SLOT_LAG = 50;
+const DEFAULT_MAX_ERROR_RATE = 0.5;
+// requests the error rate of an endpoint is computed over
+const ERROR_WINDOW = 20;
+// weight of the last request in the average latency of an endpoint
+const LATENCY_ALPHA = 0.2;
+
+// methods of Connection that make a request, the ones the pool routes
+type ConnectionMethod = {
+  [K in keyof Connection]: Connection[K] extends (...args: any[]) => Promise<any> ? K : never;
+}[keyof Connection];
+
+// methods whose requests are sent to every healthy endpoint instead of one
+const BROADCAST_METHODS: ConnectionMethod[] = ['sendRawTransaction'];
+
+export type RpcPoolStrategy = 'round-robin' | 'latency';
+
+export type RpcPoolConfig = {
+  strategy: RpcPoolStrategy;
+  healthCheckIntervalMs: number;
+  // slots an endpoint may be behind the most advanced one
+  maxSlotLag: number;
+  // share of failed requests over the last ones above which an endpoint is unhealthy
+  maxErrorRate: number;
+};
+
+export function getRpcPoolConfig(): RpcPoolConfig {
+  const strategy = process.env.RPC_POOL_STRATEGY || 'round-robin';
+  if (strategy !== 'round-robin' && strategy !== 'latency') {
+    throw new Error(`Unrecognized RPC pool strategy: ${strategy}. Must be round-robin or latency`);
+  }
+  return {
+    strategy,
+    healthCheckIntervalMs: process.env.RPC_HEALTH_CHECK_INTERVAL_MS
+      ? Number(process.env.RPC_HEALTH_CHECK_INTERVAL_MS)
+      : DEFAULT_HEALTH_CHECK_INTERVAL_MS,
+    maxSlotLag: process.env.RPC_MAX_SLOT_LAG
+      ? Number(process.env.RPC_MAX_SLOT_LAG)
+      : DEFAULT_MAX_SLOT_LAG,
+    maxErrorRate: process.env.RPC_MAX_ERROR_RATE
+      ? Number(process.env.RPC_MAX_ERROR_RATE)
+      : DEFAULT_MAX_ERROR_RATE,
+  };
+}
+
+// RPC_ENDPOINTS, separated by spaces or commas, or the single RPC_ENDPOINT
+export function getRpcEndpoints() {
+  const endpoints = (process.env.RPC_ENDPOINTS || process.env.RPC_ENDPOINT || '')
+    .split(/[\s,]+/)
+    .filter((endpoint) => endpoint);
+  if (!endpoints.length) {
+    throw new Error('Pls provide an private RPC endpoint in docker-compose.yaml');
+  }
+  return endpoints;
+}
+
+type Endpoint = {
+  url: string;
+  connection: Connection;
+  slot: number | null;
+  // of the last health check
+  reachable: boolean;
+  healthy: boolean;
+  // last requests, true for the failed ones
+  errors: boolean[];
+  // ms, moving average
+  latency: number | null;
+};
+
+const getErrorRate = (endpoint: Endpoint) => (endpoint.errors.length
+  ? endpoint.errors.filter((failed) => failed).length / endpoint.errors.length
+  : 0);
+
+// Spreads requests over several RPC endpoints. Reads go to one healthy endpoint, round robin or
+// weighted by latency, and fail over to the next ones when they fail. Transactions are broadcast
+// to every healthy endpoint. An endpoint turns unhealthy once it fails more than maxErrorRate of
+// its last requests, or when a periodic health check finds it unreachable or lagging more than
+// maxSlotLag, and healthy again at the next health check it passes.
+//
+// Subscriptions stay on the first endpoint, so that they can be removed from the connection that
+// made them. Use asConnection() to pass the pool to the libs.
+export class RpcPool {
+  endpoints: Endpoint[];
+
+  config: RpcPoolConfig;
+
+  next = 0;
+
+  timer: NodeJS.Timeout | undefined;
+
+  constructor(urls: string[], commitment: Commitment, config: RpcPoolConfig = getRpcPoolConfig()) {
+    this.endpoints = urls.map((url) => ({
+      url,
+      connection: createConnection(url, commitment),
+      slot: null,
+      reachable: true,
+      healthy: true,
+      errors: [],
+      latency: null,
+    }));
+    this.config = config;
+  }
+
+  async start() {
+    await this.checkHealth();
+    this.timer = setInterval(() => this.checkHealth(), this.config.healthCheckIntervalMs);
+    // the health checks alone don't keep the process alive
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async checkHealth() {
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      try {
+        endpoint.slot = await endpoint.connection.getSlot();
+        endpoint.reachable = true;
+      } catch (err) {
+        endpoint.reachable = false;
+        logger.warn('health check failed', { endpoint: endpoint.url, error: err });
+      }
+    }));
+    const maxSlot = Math.max(...this.endpoints.map((endpoint) => endpoint.slot || 0));
+    this.endpoints.forEach((endpoint) => {
+      const slotLag = endpoint.slot === null ? null : maxSlot - endpoint.slot;
+      const healthy = endpoint.reachable && slotLag !== null && slotLag <= this.config.maxSlotLag;
+      if (healthy && !endpoint.healthy) {
+        logger.info('endpoint is healthy', { endpoint: endpoint.url, slotLag });
+        // failures before the recovery don't count against it anymore
+        endpoint.errors = [];
+      } else if (!healthy && endpoint.healthy) {
+        logger.warn('endpoint is unhealthy', { endpoint: endpoint.url, slotLag });
+      }
+      endpoint.healthy = healthy;
+    });
+  }
+
+  // Healthy endpoints, or every endpoint when none is, as a request is better attempted than not
+  getHealthyEndpoints() {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.healthy);
+    return healthy.length ? healthy : this.endpoints;
+  }
+
+  // Healthy endpoints in the order a read should try them
+  getReadOrder() {
+    const endpoints = this.getHealthyEndpoints();
+    if (this.config.strategy === 'latency') {
+      // pick the first one with a probability inversely proportional to its latency
+      const weights = endpoints.map((endpoint) => 1 / Math.max(endpoint.latency || 1, 1));
+      let pick = Math.random() * weights.reduce((total, weight) => total + weight, 0);
+      const first = Math.max(weights.findIndex((weight) => {
+        pick -= weight;
+        return pick <= 0;
+      }), 0);
+      return [endpoints[first], ...endpoints.filter((_, i) => i !== first)
+        .sort((a, b) => (a.latency || 0) - (b.latency || 0))];
+    }
+    this.next = (this.next + 1) % endpoints.length;
+    return [...endpoints.slice(this.next), ...endpoints.slice(0, this.next)];
+  }
+
+  record(endpoint: Endpoint, start: number, failed: boolean) {
+    endpoint.errors = [...endpoint.errors, failed].slice(-ERROR_WINDOW);
+    if (!failed) {
+      const latency = Date.now() - start;
+      endpoint.latency = endpoint.latency === null
+        ? latency
+        : endpoint.latency * (1 - LATENCY_ALPHA) + latency * LATENCY_ALPHA;
+    }
+    if (failed && endpoint.healthy && endpoint.errors.length >= ERROR_WINDOW / 2
+      && getErrorRate(endpoint) > this.config.maxErrorRate) {
+      endpoint.healthy = false;
+      logger.warn('endpoint is unhealthy', { endpoint: endpoint.url, errorRate: getErrorRate(endpoint) });
+    }
+  }
+
+  async call(endpoint: Endpoint, method: ConnectionMethod, args: any[]) {
+    const start = Date.now();
+    try {
+      const request: (...requestArgs: any[]) => Promise<any> = endpoint.connection[method];
+      const result = await request.apply(endpoint.connection, args);
+      this.record(endpoint, start, false);
+      return result;
+    } catch (err) {
+      // a transaction failing preflight says nothing about the endpoint
+      this.record(endpoint, start, !(err instanceof SendTransactionError));
+      throw err;
+    }
+  }
+
+  async read(method: ConnectionMethod, args: any[]) {
+    let lastError: any;
+    for (const endpoint of this.getReadOrder()) {
+      try {
+        return await this.call(endpoint, method, args);
+      } catch (err) {
+        logger.debug('request failed, failing over', { endpoint: endpoint.url, method, error: err });
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  // Sends to every healthy endpoint, resolves with the first success, or rejects with the error of
+  // the first endpoint when all fail, e.g. on a preflight failure
+  async broadcast(method: ConnectionMethod, args: any[]) {
+    const endpoints = this.getHealthyEndpoints();
+    const results = endpoints.map((endpoint) => this.call(endpoint, method, args));
+    return new Promise((resolve, reject) => {
+      let failures = 0;
+      results.forEach((result) => result.then(resolve, () => {
+        failures += 1;
+        if (failures === results.length) {
+          results[0].catch(reject);
+        }
+      }));
+    });
+  }
+
+  asConnection(): Connection {
+    const primary = this.endpoints[0].connection;
+    return new Proxy(primary, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || typeof property !== 'string' || property.startsWith('_')
+          || property.startsWith('on') || property.startsWith('remove')) {
+          return value;
+        }
+        const method = property as ConnectionMethod;
+        if (BROADCAST_METHODS.includes(method)) {
+          return (...args: any[]) => this.broadcast(method, args);
+        }
+        return (...args: any[]) => this.read(method, args);
+      },
+    });
+  }
+}
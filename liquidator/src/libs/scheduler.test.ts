@@ -0,0 +1,185 @@
+import {
+  forEachConcurrently,
+  getConcurrencyConfig,
+  KeyedLock,
+  Semaphore,
+} from './scheduler';
+
+// A task that runs until it is finished from the test
+type Task = {
+  name: string;
+  finish: () => void;
+  fail: (err: Error) => void;
+};
+
+// Starts tasks through run, recording which are running and in which order they started
+const newTasks = () => {
+  const running: Task[] = [];
+  const started: string[] = [];
+  let maxRunning = 0;
+  const start = (name: string) => new Promise<void>((resolve, reject) => {
+    const remove = () => running.splice(running.findIndex((task) => task.name === name), 1);
+    running.push({
+      name,
+      finish: () => { remove(); resolve(); },
+      fail: (err) => { remove(); reject(err); },
+    });
+    started.push(name);
+    maxRunning = Math.max(maxRunning, running.length);
+  });
+  const find = (name: string) => running.find((task) => task.name === name)!;
+  return {
+    running, started, start, find, maxRunning: () => maxRunning,
+  };
+};
+
+// lets the resolved promises run
+const flush = async () => {
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+describe('getConcurrencyConfig', () => {
+  afterEach(() => {
+    delete process.env.MARKET_CONCURRENCY;
+  });
+
+  it('rejects limits that are not positive integers', () => {
+    ['0', '1.5', 'abc'].forEach((limit) => {
+      process.env.MARKET_CONCURRENCY = limit;
+      expect(() => getConcurrencyConfig()).toThrow(`Invalid concurrency limit: ${limit}`);
+    });
+  });
+});
+
+describe('forEachConcurrently', () => {
+  it('starts the items in order with at most limit in flight', async () => {
+    const tasks = newTasks();
+    const done = forEachConcurrently(['a', 'b', 'c', 'd', 'e'], 2, tasks.start);
+
+    await flush();
+    expect(tasks.started).toEqual(['a', 'b']);
+
+    tasks.find('b').finish();
+    await flush();
+    expect(tasks.started).toEqual(['a', 'b', 'c']);
+
+    while (tasks.running.length) {
+      tasks.running[0].finish();
+      await flush();
+    }
+    await done;
+
+    expect(tasks.started).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(tasks.maxRunning()).toBe(2);
+  });
+
+  it('does nothing without items', async () => {
+    const fn = jest.fn();
+    await forEachConcurrently([], 2, fn);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Semaphore', () => {
+  it('hands the slots over to the waiting tasks in order', async () => {
+    const semaphore = new Semaphore(2);
+    const tasks = newTasks();
+    const results = ['a', 'b', 'c', 'd'].map((name) => semaphore.run(() => tasks.start(name)));
+
+    await flush();
+    expect(tasks.started).toEqual(['a', 'b']);
+
+    tasks.find('b').finish();
+    await flush();
+    expect(tasks.started).toEqual(['a', 'b', 'c']);
+    expect(semaphore.running).toBe(2);
+
+    tasks.find('a').finish();
+    await flush();
+    expect(tasks.started).toEqual(['a', 'b', 'c', 'd']);
+
+    tasks.find('c').finish();
+    tasks.find('d').finish();
+    await Promise.all(results);
+    expect(tasks.maxRunning()).toBe(2);
+    expect(semaphore.running).toBe(0);
+  });
+
+  it('releases the slot of a task that throws', async () => {
+    const semaphore = new Semaphore(1);
+    const tasks = newTasks();
+    const failed = semaphore.run(() => tasks.start('a'));
+    const next = semaphore.run(() => tasks.start('b'));
+
+    await flush();
+    tasks.find('a').fail(new Error('boom'));
+    await expect(failed).rejects.toThrow('boom');
+    await flush();
+
+    expect(tasks.started).toEqual(['a', 'b']);
+    tasks.find('b').finish();
+    await next;
+    expect(semaphore.running).toBe(0);
+  });
+});
+
+describe('KeyedLock', () => {
+  it('runs tasks of the same key one after the other and others alongside', async () => {
+    const lock = new KeyedLock();
+    const tasks = newTasks();
+    const results = [
+      lock.run(['obligation'], () => tasks.start('a')),
+      lock.run(['obligation'], () => tasks.start('b')),
+      lock.run(['other'], () => tasks.start('c')),
+    ];
+
+    await flush();
+    expect(tasks.started).toEqual(['a', 'c']);
+
+    tasks.find('a').finish();
+    await flush();
+    expect(tasks.started).toEqual(['a', 'c', 'b']);
+
+    tasks.find('b').finish();
+    tasks.find('c').finish();
+    await Promise.all(results);
+    expect(lock.tails.size).toBe(0);
+  });
+
+  it('does not deadlock tasks locking overlapping keys in different orders', async () => {
+    const lock = new KeyedLock();
+    const tasks = newTasks();
+    const results = [
+      lock.run(['USDC', 'SOL'], () => tasks.start('a')),
+      lock.run(['SOL', 'USDC'], () => tasks.start('b')),
+      lock.run(['SOL', 'ETH', 'SOL'], () => tasks.start('c')),
+    ];
+
+    for (const name of ['a', 'b', 'c']) {
+      await flush();
+      expect(tasks.running.map((task) => task.name)).toEqual([name]);
+      tasks.find(name).finish();
+    }
+    await Promise.all(results);
+    expect(lock.tails.size).toBe(0);
+  });
+
+  it('releases the keys of a task that throws', async () => {
+    const lock = new KeyedLock();
+    const tasks = newTasks();
+    const failed = lock.run(['USDC', 'SOL'], () => tasks.start('a'));
+    const next = lock.run(['SOL'], () => tasks.start('b'));
+
+    await flush();
+    tasks.find('a').fail(new Error('boom'));
+    await expect(failed).rejects.toThrow('boom');
+    await flush();
+
+    expect(tasks.started).toEqual(['a', 'b']);
+    tasks.find('b').finish();
+    await next;
+    expect(lock.tails.size).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+const DEFAULT_MARKET_CONCURRENCY = 2;
+const DEFAULT_OBLIGATION_CONCURRENCY = 4;
+const DEFAULT_LIQUIDATION_CONCURRENCY = 2;
+
+export type ConcurrencyConfig = {
+  // markets evaluated at once
+  markets: number;
+  // obligations evaluated at once per market
+  obligations: number;
+  // liquidation transactions in flight at once over every market
+  liquidations: number;
+};
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const limit = value ? Number(value) : fallback;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid concurrency limit: ${value}. Must be a positive integer`);
+  }
+  return limit;
+};
+
+export function getConcurrencyConfig(): ConcurrencyConfig {
+  return {
+    markets: readLimit(process.env.MARKET_CONCURRENCY, DEFAULT_MARKET_CONCURRENCY),
+    obligations: readLimit(process.env.OBLIGATION_CONCURRENCY, DEFAULT_OBLIGATION_CONCURRENCY),
+    liquidations: readLimit(process.env.LIQUIDATION_CONCURRENCY, DEFAULT_LIQUIDATION_CONCURRENCY),
+  };
+}
+
+// Runs fn over the items, in order, with at most limit of them in flight at once
+export async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await fn(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+// At most limit tasks run at once, the others wait in order
+export class Semaphore {
+  limit: number;
+
+  running = 0;
+
+  waiting: (() => void)[] = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.running >= this.limit) {
+      await new Promise<void>((resolve) => { this.waiting.push(resolve); });
+    } else {
+      this.running += 1;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        // the slot passes on to the next task
+        next();
+      } else {
+        this.running -= 1;
+      }
+    }
+  }
+}
+
+// Mutual exclusion per key, e.g. an obligation or a token of the wallet. A task holds all its keys
+// while it runs. Keys are acquired one at a time in sorted order, so that tasks locking
+// overlapping keys can't deadlock.
+export class KeyedLock {
+  // per key, resolves once the last task queued on it is done
+  tails = new Map<string, Promise<void>>();
+
+  async run<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const releases: (() => void)[] = [];
+    try {
+      for (const key of [...new Set(keys)].sort()) {
+        releases.push(await this.acquire(key));
+      }
+      return await fn();
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+
+  async acquire(key: string) {
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release: () => void = () => {};
+    const tail = previous.then(() => new Promise<void>((resolve) => { release = resolve; }));
+    this.tails.set(key, tail);
+    await previous;
+    return () => {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    };
+  }
+}
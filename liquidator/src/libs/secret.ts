@@ -1,20 +1,21 @@
-import fs from "fs";
+import fs from 'fs';
+import { getLogger } from './logger';
+
+const logger = getLogger('secret');
 
 export function readSecret(secretName) {
   const path = process.env.SECRET_PATH || `/run/secrets/${secretName}`;
   try {
-    const str = fs.readFileSync(path, "utf8");
+    const str = fs.readFileSync(path, 'utf8');
     const json = JSON.parse(str);
 
     return json.privKey;
   } catch (err) {
-    if (err.code !== "ENOENT") {
-      console.error(
-        `An error occurred while trying to read the secret path: ${path}. Err: ${err}`
-      );
+    if (err.code !== 'ENOENT') {
+      logger.error('failed to read the secret', { path, error: err });
     } else {
-      console.debug(`Could not find the secret,: ${secretName}. Err: ${err}`);
+      logger.debug('secret not found', { secretName, path });
     }
-    return "";
+    return '';
   }
 }
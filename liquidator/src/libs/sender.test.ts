@@ -0,0 +1,135 @@
+import {
+  SendTransactionError,
+  SignatureStatus,
+  TransactionError,
+} from '@solana/web3.js';
+import { SenderConfig, SenderConnection, sendTransaction } from './sender';
+
+const SIGNATURE = 'signature';
+const CONFIG: SenderConfig = { commitment: 'confirmed', rebroadcastIntervalMs: 0 };
+const TRANSACTION = Buffer.from([1, 2, 3]);
+
+// Reports the scripted signature statuses and block heights one poll at a time, the last of
+// each for every later poll
+class FakeSenderConnection implements SenderConnection {
+  sends: { skipPreflight?: boolean }[] = [];
+
+  constructor(
+    private statuses: (SignatureStatus | null)[],
+    private blockHeights: number[] = [0],
+    private sendError?: Error,
+    private logs: string[] = [],
+  ) {}
+
+  async sendRawTransaction(rawTransaction: Buffer | Uint8Array | number[], options?: { skipPreflight?: boolean }) {
+    this.sends.push({ skipPreflight: options?.skipPreflight });
+    if (this.sendError && !options?.skipPreflight) {
+      throw this.sendError;
+    }
+    return SIGNATURE;
+  }
+
+  async getSignatureStatuses() {
+    const status = this.statuses.length > 1 ? this.statuses.shift()! : this.statuses[0];
+    return { context: { slot: 0 }, value: [status] };
+  }
+
+  async getBlockHeight() {
+    return this.blockHeights.length > 1 ? this.blockHeights.shift()! : this.blockHeights[0];
+  }
+
+  async getTransaction(): Promise<any> {
+    return { slot: 10, meta: { logMessages: this.logs } };
+  }
+}
+
+const status = (
+  confirmationStatus: SignatureStatus['confirmationStatus'],
+  err: TransactionError | null = null,
+): SignatureStatus => ({
+  slot: 10,
+  confirmations: null,
+  err,
+  confirmationStatus,
+});
+
+describe('sendTransaction', () => {
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('lands once the transaction reaches the configured commitment', async () => {
+    const connection = new FakeSenderConnection([null, status('processed'), status('confirmed')]);
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toEqual({ status: 'landed', signature: SIGNATURE, slot: 10 });
+    // preflighted once, then rebroadcast until the transaction is seen
+    expect(connection.sends).toEqual([{ skipPreflight: false }, { skipPreflight: true }]);
+  });
+
+  it('reports a preflight failure with its logs', async () => {
+    const connection = new FakeSenderConnection([], [0], new SendTransactionError({
+      action: 'send',
+      signature: '',
+      transactionMessage: 'Transaction simulation failed: custom program error: 0x1',
+      logs: ['Program log: Error: Insufficient liquidity'],
+    }));
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toMatchObject({
+      status: 'failed',
+      logs: ['Program log: Error: Insufficient liquidity'],
+    });
+    expect(outcome).not.toHaveProperty('signature');
+    expect(connection.sends).toHaveLength(1);
+  });
+
+  it('reports an on chain failure with the logs of the transaction', async () => {
+    const err = { InstructionError: [0, { Custom: 1 }] };
+    const connection = new FakeSenderConnection(
+      [status('processed', err)],
+      [0],
+      undefined,
+      ['Program log: Error: Obligation healthy'],
+    );
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toEqual({
+      status: 'failed',
+      signature: SIGNATURE,
+      error: err,
+      logs: ['Program log: Error: Obligation healthy'],
+    });
+  });
+
+  it('expires once the block height passes the last valid block height unseen', async () => {
+    const connection = new FakeSenderConnection([null], [99, 100, 101]);
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toEqual({ status: 'expired', signature: SIGNATURE });
+    expect(connection.sends).toHaveLength(3);
+  });
+
+  it('checks the status once more before reporting a transaction expired', async () => {
+    // lands between the status and block height reads
+    const connection = new FakeSenderConnection([null, status('processed'), status('confirmed')], [101]);
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toEqual({ status: 'landed', signature: SIGNATURE, slot: 10 });
+    expect(connection.sends).toHaveLength(1);
+  });
+
+  it('waits for a seen transaction past its last valid block height', async () => {
+    const connection = new FakeSenderConnection([status('processed'), status('confirmed')], [101]);
+
+    const outcome = await sendTransaction(connection, TRANSACTION, 100, CONFIG);
+
+    expect(outcome).toEqual({ status: 'landed', signature: SIGNATURE, slot: 10 });
+    expect(connection.sends).toHaveLength(1);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  Commitment,
+  Connection,
+  SendTransactionError,
+  TransactionSignature,
+} from '@solana/web3.js';
+import { getLogger } from './logger';
+import { wait } from './utils';
+
+const logger = getLogger('sender');
+
+const DEFAULT_COMMITMENT: Commitment = 'confirmed';
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2000;
+
+// only the commitments reported by getSignatureStatuses, in increasing order
+const COMMITMENT_LEVELS = ['processed', 'confirmed', 'finalized'];
+
+export type SendOutcome =
+  | {
+    status: 'landed';
+    signature: TransactionSignature;
+    slot: number;
+  }
+  | {
+    status: 'failed';
+    // undefined when the transaction was rejected before getting a signature on chain
+    signature?: TransactionSignature;
+    // the transaction error of the landed transaction or the preflight error message
+    error: any;
+    logs: string[];
+  }
+  | {
+    status: 'expired';
+    signature: TransactionSignature;
+  };
+
+// The subset of Connection the sender relies on, so that it can run against a fake connection
+export type SenderConnection = Pick<Connection, 'sendRawTransaction'
+| 'getSignatureStatuses'
+| 'getBlockHeight'
+| 'getTransaction'>;
+
+export type SenderConfig = {
+  // commitment the transaction must reach to be considered landed
+  commitment: Commitment;
+  rebroadcastIntervalMs: number;
+};
+
+export function getSenderConfig(): SenderConfig {
+  const commitment = process.env.TX_COMMITMENT || DEFAULT_COMMITMENT;
+  if (!COMMITMENT_LEVELS.includes(commitment)) {
+    throw new Error(`Unrecognized transaction commitment: ${commitment}. Must be processed, confirmed or finalized`);
+  }
+  return {
+    commitment: commitment as Commitment,
+    rebroadcastIntervalMs: process.env.TX_REBROADCAST_INTERVAL_MS
+      ? Number(process.env.TX_REBROADCAST_INTERVAL_MS)
+      : DEFAULT_REBROADCAST_INTERVAL_MS,
+  };
+}
+
+// Logs of a failed transaction, for decoding the failure. Best effort.
+async function getLogs(connection: SenderConnection, signature: TransactionSignature) {
+  try {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    return tx?.meta?.logMessages || [];
+  } catch (err) {
+    logger.warn('failed to fetch transaction logs', { signature, error: err });
+    return [];
+  }
+}
+
+const reaches = (status: string | undefined, commitment: Commitment) => status !== undefined
+  && COMMITMENT_LEVELS.indexOf(status) >= COMMITMENT_LEVELS.indexOf(commitment);
+
+// Sends a signed transaction and rebroadcasts it until it reaches the configured commitment,
+// fails, or its blockhash expires, i.e. the block height passes lastValidBlockHeight. Only the
+// first send is preflighted, a preflight failure is reported as a failed outcome.
+export async function sendTransaction(
+  connection: SenderConnection,
+  serializedTransaction: Buffer | Uint8Array,
+  lastValidBlockHeight: number,
+  config: SenderConfig = getSenderConfig(),
+): Promise<SendOutcome> {
+  let signature: TransactionSignature;
+  try {
+    signature = await connection.sendRawTransaction(serializedTransaction, {
+      skipPreflight: false,
+      maxRetries: 0,
+    });
+  } catch (err) {
+    return {
+      status: 'failed',
+      error: err instanceof Error ? err.message : err,
+      logs: (err instanceof SendTransactionError && err.logs) || [],
+    };
+  }
+
+  for (;;) {
+    const { value: [status] } = await connection.getSignatureStatuses([signature]);
+    if (status?.err) {
+      return {
+        status: 'failed',
+        signature,
+        error: status.err,
+        logs: await getLogs(connection, signature),
+      };
+    }
+    if (status && reaches(status.confirmationStatus, config.commitment)) {
+      return { status: 'landed', signature, slot: status.slot };
+    }
+
+    const blockHeight = await connection.getBlockHeight(config.commitment);
+    if (blockHeight > lastValidBlockHeight) {
+      // a landed transaction can still be on its way to the configured commitment, and one that
+      // landed since its status was read must not be reported expired and sent again
+      if (!status) {
+        const { value: [lastStatus] } = await connection.getSignatureStatuses([signature]);
+        if (!lastStatus) {
+          return { status: 'expired', signature };
+        }
+      }
+    } else if (!status) {
+      try {
+        await connection.sendRawTransaction(serializedTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        });
+      } catch (err) {
+        logger.warn('failed to rebroadcast', { signature, error: err });
+      }
+    }
+
+    await wait(config.rebroadcastIntervalMs);
+  }
+}
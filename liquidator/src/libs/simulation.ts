@@ -0,0 +1,198 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { Reserve } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import BN from 'bn.js';
+import { findWhere } from 'underscore';
+import { MAX_COMPUTE_UNITS } from './computeBudget';
+import { TokenOracleData } from './oracle';
+import { getCollateralExchangeRate, WAD } from './utils';
+
+// offset of the amount in an SPL token account
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+// A transaction that failed simulation, with what is needed to decode why
+export class SimulationError extends Error {
+  error: any;
+
+  logs: string[];
+
+  constructor(error: any, logs: string[]) {
+    super(`simulation failed: ${JSON.stringify(error)}`);
+    // keeps instanceof working when compiled to es5
+    Object.setPrototypeOf(this, SimulationError.prototype);
+    this.error = error;
+    this.logs = logs;
+  }
+}
+
+// A liquidation whose simulated profit is below the minimum, aborted before sending
+export class ProfitAbortError extends Error {
+  profit: BigNumber;
+
+  minProfit: number;
+
+  constructor(profit: BigNumber, minProfit: number) {
+    super(`simulated profit $${profit.toFixed(2)} is below the minimum of $${minProfit}`);
+    Object.setPrototypeOf(this, ProfitAbortError.prototype);
+    this.profit = profit;
+    this.minProfit = minProfit;
+  }
+}
+
+// A token account whose balance change is read back from the simulation
+export type SimulatedAccount = {
+  address: PublicKey;
+  symbol: string;
+  // USD value of one base unit
+  unitPrice: BigNumber;
+};
+
+export type SimulatedBalance = SimulatedAccount & {
+  // base units, missing accounts count as empty
+  before: BigNumber;
+  after: BigNumber;
+  change: BigNumber;
+  // USD value of the change
+  value: BigNumber;
+};
+
+// What a liquidation's simulated balance changes are valued with
+export type Preflight = {
+  tokensOracle: TokenOracleData[];
+  // parsed withdraw reserve, for the collateral exchange rate
+  withdrawReserve: Reserve;
+  // minimum simulated profit to send the transaction, in USD
+  minProfit: number;
+};
+
+export type Simulation = {
+  unitsConsumed: number;
+  logs: string[];
+  balances: SimulatedBalance[];
+  // USD value of all balance changes
+  profit: BigNumber;
+};
+
+const getTokenAmount = (data: Buffer | null | undefined) => (
+  data && data.length >= TOKEN_ACCOUNT_AMOUNT_OFFSET + 8
+    ? new BigNumber(new BN(data.slice(TOKEN_ACCOUNT_AMOUNT_OFFSET, TOKEN_ACCOUNT_AMOUNT_OFFSET + 8), 'le').toString())
+    : new BigNumber(0));
+
+// Prepended to the simulated instructions so that the simulation gets the full budget
+export const getSimulationComputeBudgetInstructions = () => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+];
+
+// Simulates the instructions with the maximum compute budget and reads back the balances of
+// the given token accounts. Instructions referring to others by index, e.g. a flash repay to
+// its flash borrow, must account for getSimulationComputeBudgetInstructions. Throws a
+// SimulationError when the transaction fails.
+export async function simulateInstructions(
+  connection: Pick<Connection, 'getMultipleAccountsInfo' | 'simulateTransaction'>,
+  payerKey: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = [],
+  accounts: SimulatedAccount[] = [],
+): Promise<Simulation> {
+  const uniqueAccounts = accounts.filter((account, index) => accounts.findIndex(
+    (other) => other.address.equals(account.address),
+  ) === index);
+
+  const tx = new VersionedTransaction(new TransactionMessage({
+    payerKey,
+    // replaced by the node with its latest blockhash
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [...getSimulationComputeBudgetInstructions(), ...instructions],
+  }).compileToV0Message(lookupTables));
+
+  const addresses = uniqueAccounts.map((account) => account.address);
+  const [before, { value }] = await Promise.all([
+    addresses.length ? connection.getMultipleAccountsInfo(addresses) : Promise.resolve([]),
+    connection.simulateTransaction(tx, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: 'base64',
+        addresses: addresses.map((address) => address.toBase58()),
+      },
+    }),
+  ]);
+  if (value.err) {
+    throw new SimulationError(value.err, value.logs || []);
+  }
+
+  const balances = uniqueAccounts.map((account, index) => {
+    const after = value.accounts?.[index];
+    const beforeAmount = getTokenAmount(before[index]?.data);
+    const afterAmount = getTokenAmount(after ? Buffer.from(after.data[0], 'base64') : null);
+    const change = afterAmount.minus(beforeAmount);
+    return {
+      ...account,
+      before: beforeAmount,
+      after: afterAmount,
+      change,
+      value: change.multipliedBy(account.unitPrice),
+    };
+  });
+
+  return {
+    unitsConsumed: value.unitsConsumed || MAX_COMPUTE_UNITS,
+    logs: value.logs || [],
+    balances,
+    profit: balances.reduce((profit, balance) => profit.plus(balance.value), new BigNumber(0)),
+  };
+}
+
+// USD value of one base unit of the token with the given mint
+export function getUnitPrice(tokensOracle: TokenOracleData[], mintAddress: string) {
+  const oracle: TokenOracleData | undefined = findWhere(tokensOracle, { mintAddress });
+  if (!oracle) {
+    return new BigNumber(0);
+  }
+  // decimals holds 10^decimals
+  return oracle.price.dividedBy(oracle.decimals);
+}
+
+// USD value of one base unit of the reserve's collateral token
+export function getCollateralUnitPrice(liquidityUnitPrice: BigNumber, reserve: Reserve) {
+  return liquidityUnitPrice.multipliedBy(WAD).dividedBy(getCollateralExchangeRate(reserve));
+}
+
+export function formatSimulation(simulation: Simulation) {
+  const balances = simulation.balances.map((balance) => `${balance.symbol} ${balance.change.isNegative() ? '' : '+'}${balance.change.toFixed(0)} base units ($${balance.value.toFixed(2)})`);
+  return `simulated ${simulation.unitsConsumed} compute units, ${balances.join(', ')}, profit $${simulation.profit.toFixed(2)}`;
+}
+
+// The simulation as log fields, balance changes in base units
+export function getSimulationLogFields(simulation: Simulation) {
+  return {
+    unitsConsumed: simulation.unitsConsumed,
+    balances: simulation.balances.map((balance) => ({
+      symbol: balance.symbol,
+      change: balance.change.toFixed(0),
+      value: balance.value.toFixed(2),
+    })),
+    profit: simulation.profit.toFixed(2),
+  };
+}
+
+export function checkSimulatedProfit(simulation: Simulation, preflight: Preflight) {
+  if (simulation.profit.isLessThan(preflight.minProfit)) {
+    throw new ProfitAbortError(simulation.profit, preflight.minProfit);
+  }
+}
+
+export function getMinProfitUSD() {
+  return process.env.PREFLIGHT_MIN_PROFIT_USD
+    ? Number(process.env.PREFLIGHT_MIN_PROFIT_USD)
+    : 0;
+}
@@ -0,0 +1,236 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  OBLIGATION_SIZE,
+  parseObligation,
+  parseReserve,
+  RESERVE_SIZE,
+} from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import fs from 'fs';
+import { MarketConfig } from 'global';
+import path from 'path';
+import { getTokensOracleData, TokenOracleData } from './oracle';
+import { getProgramIdForCurrentDeployment, WAD } from './utils';
+
+// A raw program account, as returned by getProgramAccounts with base64 encoding
+export type SnapshotAccount = {
+  pubkey: string;
+  // base64
+  data: string;
+};
+
+// TokenOracleData with its BigNumbers as strings
+export type SnapshotTokenOracleData = Omit<TokenOracleData, 'decimals' | 'price' | 'smoothedPrice' | 'confidence'> & {
+  decimals: string;
+  price: string;
+  smoothedPrice: string;
+  confidence: string;
+};
+
+// Everything the liquidator evaluates a market with, at one slot
+export type MarketSnapshot = {
+  slot: number;
+  // unix seconds, null when unknown e.g. for dumps
+  timestamp: number | null;
+  market: MarketConfig;
+  obligations: SnapshotAccount[];
+  reserves: SnapshotAccount[];
+  tokensOracle: SnapshotTokenOracleData[];
+};
+
+// A market snapshot with its accounts parsed, in the shapes the liquidator works with
+export type LoadedSnapshot = {
+  slot: number;
+  timestamp: number | null;
+  market: MarketConfig;
+  obligations: any[];
+  reserves: any[];
+  tokensOracle: TokenOracleData[];
+};
+
+const toSnapshotAccount = (pubkey: PublicKey, data: Buffer): SnapshotAccount => ({
+  pubkey: pubkey.toBase58(),
+  data: data.toString('base64'),
+});
+
+// plain code unit order, unlike localeCompare it doesn't depend on the machine's locale
+export const compareStrings = (a: string, b: string) => {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+};
+
+const byPubkey = (a: SnapshotAccount, b: SnapshotAccount) => compareStrings(a.pubkey, b.pubkey);
+
+export function serializeTokenOracleData(oracle: TokenOracleData): SnapshotTokenOracleData {
+  return {
+    ...oracle,
+    decimals: oracle.decimals.toString(),
+    price: oracle.price.toString(),
+    smoothedPrice: oracle.smoothedPrice.toString(),
+    confidence: oracle.confidence.toString(),
+  };
+}
+
+export function deserializeTokenOracleData(oracle: SnapshotTokenOracleData): TokenOracleData {
+  return {
+    ...oracle,
+    decimals: new BigNumber(oracle.decimals),
+    price: new BigNumber(oracle.price),
+    smoothedPrice: new BigNumber(oracle.smoothedPrice),
+    confidence: new BigNumber(oracle.confidence),
+  };
+}
+
+async function getMarketAccounts(connection: Connection, market: MarketConfig, dataSize: number) {
+  const { context, value } = await connection.getProgramAccounts(
+    new PublicKey(getProgramIdForCurrentDeployment()),
+    {
+      commitment: connection.commitment,
+      filters: [
+        { memcmp: { offset: 10, bytes: market.address } },
+        { dataSize },
+      ],
+      encoding: 'base64',
+      withContext: true,
+    },
+  );
+  return {
+    slot: context.slot,
+    accounts: value.map(({ pubkey, account }) => toSnapshotAccount(pubkey, account.data)).sort(byPubkey),
+  };
+}
+
+// Reads a market's obligations, reserves and oracle prices. The three are fetched one after the
+// other, so the snapshot is taken at the slot of the obligations and the rest is at most a few
+// slots newer.
+export async function takeSnapshot(connection: Connection, market: MarketConfig): Promise<MarketSnapshot> {
+  const obligations = await getMarketAccounts(connection, market, OBLIGATION_SIZE);
+  const reserves = await getMarketAccounts(connection, market, RESERVE_SIZE);
+  const tokensOracle: TokenOracleData[] = await getTokensOracleData(connection, market);
+  return {
+    slot: obligations.slot,
+    timestamp: Math.floor(Date.now() / 1000),
+    market,
+    obligations: obligations.accounts,
+    reserves: reserves.accounts,
+    tokensOracle: tokensOracle.map(serializeTokenOracleData),
+  };
+}
+
+// Accounts of a getProgramAccounts dump: either the JSON-RPC response, with or without
+// withContext, or its bare result. Only base64 encoded accounts are supported.
+export function parseProgramAccountsDump(dump: any) {
+  const result = dump?.result ?? dump;
+  const value = Array.isArray(result) ? result : result?.value;
+  if (!Array.isArray(value)) {
+    throw new Error('not a getProgramAccounts dump');
+  }
+  const accounts = value.map(({ pubkey, account }): SnapshotAccount => {
+    const data = Array.isArray(account.data) ? account.data : [account.data, 'base64'];
+    if (data[1] !== 'base64') {
+      throw new Error(`account ${pubkey} is ${data[1]} encoded, dump with base64 encoding`);
+    }
+    return { pubkey, data: data[0] };
+  });
+  return {
+    slot: result?.context?.slot as number | undefined,
+    accounts: accounts.sort(byPubkey),
+  };
+}
+
+// Oracle prices as cached in the reserves at their last refresh, for dumps that come without
+// oracle data. The source is left null as the price was not read from an oracle.
+export function getTokensOracleDataFromReserves(market: MarketConfig, reserves: any[]) {
+  return market.reserves.map((config): TokenOracleData => {
+    const reserve = reserves.find((parsed) => parsed.pubkey.toBase58() === config.address);
+    const liquidity = reserve?.info.liquidity;
+    const price = liquidity
+      ? new BigNumber(liquidity.marketPrice.toString()).dividedBy(WAD)
+      : new BigNumber(0);
+    return {
+      symbol: config.liquidityToken.symbol,
+      reserveAddress: config.address,
+      mintAddress: config.liquidityToken.mint,
+      decimals: new BigNumber(10 ** config.liquidityToken.decimals),
+      price,
+      smoothedPrice: liquidity?.smoothedMarketPrice
+        ? new BigNumber(liquidity.smoothedMarketPrice.toString()).dividedBy(WAD)
+        : price,
+      source: null,
+      confidence: new BigNumber(0),
+      publishSlot: null,
+      publishTime: null,
+    };
+  });
+}
+
+const parseAccounts = (accounts: SnapshotAccount[], parse: (pubkey: PublicKey, info: any) => any) => accounts
+  .map((account) => parse(new PublicKey(account.pubkey), {
+    data: Buffer.from(account.data, 'base64'),
+    executable: false,
+    lamports: 0,
+    owner: new PublicKey(getProgramIdForCurrentDeployment()),
+  }))
+  .filter((parsed) => parsed);
+
+export function loadSnapshot(snapshot: MarketSnapshot): LoadedSnapshot {
+  return {
+    slot: snapshot.slot,
+    timestamp: snapshot.timestamp,
+    market: snapshot.market,
+    obligations: parseAccounts(snapshot.obligations, parseObligation),
+    reserves: parseAccounts(snapshot.reserves, parseReserve),
+    tokensOracle: snapshot.tokensOracle.map(deserializeTokenOracleData),
+  };
+}
+
+// Builds a snapshot from getProgramAccounts dumps of a market's obligations and reserves. Prices
+// come from the given oracle data, or the reserves' cached market prices when there is none. The
+// slot defaults to the one of the obligations dump when it was taken with withContext.
+export function snapshotFromDumps(
+  market: MarketConfig,
+  obligationsDump: any,
+  reservesDump: any,
+  slot?: number,
+  tokensOracle?: TokenOracleData[],
+): MarketSnapshot {
+  const obligations = parseProgramAccountsDump(obligationsDump);
+  const reserves = parseProgramAccountsDump(reservesDump);
+  const snapshotSlot = slot ?? obligations.slot;
+  if (snapshotSlot === undefined) {
+    throw new Error('the obligations dump has no context, provide its slot');
+  }
+  const snapshot: MarketSnapshot = {
+    slot: snapshotSlot,
+    timestamp: null,
+    market,
+    obligations: obligations.accounts,
+    reserves: reserves.accounts,
+    tokensOracle: [],
+  };
+  snapshot.tokensOracle = (
+    tokensOracle ?? getTokensOracleDataFromReserves(market, loadSnapshot(snapshot).reserves)
+  ).map(serializeTokenOracleData);
+  return snapshot;
+}
+
+export function getSnapshotPath(dir: string, snapshot: MarketSnapshot) {
+  return path.join(dir, `${snapshot.market.address}-${snapshot.slot}.json`);
+}
+
+export function writeSnapshot(dir: string, snapshot: MarketSnapshot) {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = getSnapshotPath(dir, snapshot);
+  fs.writeFileSync(file, JSON.stringify(snapshot));
+  return file;
+}
+
+// All snapshots in a directory, ordered by slot then market
+export function readSnapshots(dir: string): MarketSnapshot[] {
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as MarketSnapshot)
+    .sort((a, b) => a.slot - b.slot || compareStrings(a.market.address, b.market.address));
+}
@@ -0,0 +1,160 @@
+import {
+  Account,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import got from 'got';
+import { SenderConnection, sendTransaction } from './sender';
+
+const DEFAULT_JUPITER_API_URL = 'https://quote-api.jup.ag/v6';
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+export type SwapQuoteRequest = {
+  inputMint: string;
+  outputMint: string;
+  // amount of input token in base units
+  amount: string;
+  slippageBps: number;
+};
+
+export type SwapQuote = {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  // minimum output after slippage
+  minOutAmount: string;
+  priceImpactPct: number;
+  // provider specific payload needed to execute the quote
+  raw: any;
+};
+
+export type SwapInstructions = {
+  // setup, swap and cleanup instructions in execution order
+  instructions: TransactionInstruction[];
+  // lookup tables the instructions are meant to be compiled against
+  addressLookupTableAddresses: string[];
+};
+
+// A swap provider quotes and executes swaps between two mints. Implementations must not
+// assume anything about where the liquidity comes from so that the rebalancer can run
+// against an aggregator, a local mock quoting engine, or anything in between.
+export interface SwapProvider {
+  name: string;
+  quote(request: SwapQuoteRequest): Promise<SwapQuote>;
+  swap(connection: SenderConnection, payer: Account, quote: SwapQuote): Promise<string>;
+  // instructions executing the quote, for composing a swap into a larger transaction
+  swapInstructions(userPublicKey: PublicKey, quote: SwapQuote): Promise<SwapInstructions>;
+}
+
+const deserializeInstruction = (instruction: any) => new TransactionInstruction({
+  programId: new PublicKey(instruction.programId),
+  keys: instruction.accounts.map((key) => ({
+    pubkey: new PublicKey(key.pubkey),
+    isSigner: key.isSigner,
+    isWritable: key.isWritable,
+  })),
+  data: Buffer.from(instruction.data, 'base64'),
+});
+
+export class JupiterSwapProvider implements SwapProvider {
+  name = 'jupiter';
+
+  apiUrl: string;
+
+  constructor(apiUrl: string = DEFAULT_JUPITER_API_URL) {
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const resp = await got(`${this.apiUrl}/quote`, {
+      json: true,
+      query: {
+        inputMint: request.inputMint,
+        outputMint: request.outputMint,
+        amount: request.amount,
+        slippageBps: request.slippageBps,
+      },
+    });
+    const quoteResponse = resp.body;
+
+    return {
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      inAmount: quoteResponse.inAmount,
+      outAmount: quoteResponse.outAmount,
+      minOutAmount: quoteResponse.otherAmountThreshold,
+      priceImpactPct: Number(quoteResponse.priceImpactPct),
+      raw: quoteResponse,
+    };
+  }
+
+  async swap(connection: SenderConnection, payer: Account, quote: SwapQuote): Promise<string> {
+    const resp = await got.post(`${this.apiUrl}/swap`, {
+      json: true,
+      body: {
+        quoteResponse: quote.raw,
+        userPublicKey: payer.publicKey.toBase58(),
+        // balances are tracked against the wSOL token account
+        wrapAndUnwrapSol: false,
+      },
+    });
+
+    const tx = VersionedTransaction.deserialize(
+      Buffer.from(resp.body.swapTransaction, 'base64'),
+    );
+    tx.sign([payer]);
+
+    const outcome = await sendTransaction(
+      connection,
+      tx.serialize(),
+      resp.body.lastValidBlockHeight,
+    );
+    if (outcome.status !== 'landed') {
+      throw new Error(`swap ${outcome.status}: ${JSON.stringify(outcome)}`);
+    }
+    return outcome.signature;
+  }
+
+  async swapInstructions(userPublicKey: PublicKey, quote: SwapQuote): Promise<SwapInstructions> {
+    const resp = await got.post(`${this.apiUrl}/swap-instructions`, {
+      json: true,
+      body: {
+        quoteResponse: quote.raw,
+        userPublicKey: userPublicKey.toBase58(),
+        wrapAndUnwrapSol: false,
+      },
+    });
+    const {
+      setupInstructions, swapInstruction, cleanupInstruction, addressLookupTableAddresses,
+    } = resp.body;
+
+    return {
+      instructions: [
+        ...(setupInstructions || []),
+        swapInstruction,
+        ...(cleanupInstruction ? [cleanupInstruction] : []),
+      ].map(deserializeInstruction),
+      addressLookupTableAddresses: addressLookupTableAddresses || [],
+    };
+  }
+}
+
+export function getSwapSlippageBps() {
+  return process.env.SWAP_SLIPPAGE_BPS
+    ? Number(process.env.SWAP_SLIPPAGE_BPS)
+    : DEFAULT_SLIPPAGE_BPS;
+}
+
+// Returns the swap provider configured through SWAP_PROVIDER. JUPITER_API_URL can point the
+// jupiter provider at any server speaking the same quote/swap API, e.g. a local mock.
+export function getSwapProvider(): SwapProvider {
+  const provider = process.env.SWAP_PROVIDER || 'jupiter';
+  switch (provider) {
+    case 'jupiter':
+      return new JupiterSwapProvider(process.env.JUPITER_API_URL || DEFAULT_JUPITER_API_URL);
+    default:
+      throw new Error(`Unrecognized swap provider: ${provider}`);
+  }
+}
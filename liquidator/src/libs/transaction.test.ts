@@ -0,0 +1,68 @@
+import {
+  Account,
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { buildTransaction } from './transaction';
+
+const connection = {
+  getLatestBlockhash: async () => ({
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 100,
+  }),
+};
+
+const payer = new Account();
+const destination = Keypair.generate().publicKey;
+const instructions = [SystemProgram.transfer({
+  fromPubkey: payer.publicKey,
+  toPubkey: destination,
+  lamports: 1,
+})];
+
+const lookupTable = (addresses: PublicKey[]) => new AddressLookupTableAccount({
+  key: Keypair.generate().publicKey,
+  state: {
+    deactivationSlot: BigInt('18446744073709551615'),
+    lastExtendedSlot: 0,
+    lastExtendedSlotStartIndex: 0,
+    addresses,
+  },
+});
+
+describe('buildTransaction', () => {
+  beforeEach(() => {
+    process.env.LOG_LEVEL = 'error';
+  });
+
+  it('builds a legacy transaction without lookup tables', async () => {
+    const built = await buildTransaction(connection, payer, instructions);
+
+    expect(built.version).toBe('legacy');
+    expect(built.transaction).toBeInstanceOf(Transaction);
+    expect(built.lastValidBlockHeight).toBe(100);
+    expect(built.size).toBe(built.transaction.serialize().length);
+  });
+
+  it('builds a v0 transaction compiled against the lookup tables', async () => {
+    const built = await buildTransaction(connection, payer, instructions, [lookupTable([destination])]);
+
+    expect(built.version).toBe(0);
+    expect(built.transaction).toBeInstanceOf(VersionedTransaction);
+    const { message } = built.transaction as VersionedTransaction;
+    expect(message.addressTableLookups).toHaveLength(1);
+    expect(message.addressTableLookups[0].writableIndexes).toEqual([0]);
+  });
+
+  it('falls back to a legacy transaction when the v0 compilation fails', async () => {
+    const broken = { key: Keypair.generate().publicKey } as AddressLookupTableAccount;
+    const built = await buildTransaction(connection, payer, instructions, [broken]);
+
+    expect(built.version).toBe('legacy');
+    expect(built.transaction).toBeInstanceOf(Transaction);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  Account,
+  AddressLookupTableAccount,
+  Connection,
+  PACKET_DATA_SIZE,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { getLogger } from './logger';
+
+const logger = getLogger('transaction');
+
+export type BuiltTransaction = {
+  transaction: Transaction | VersionedTransaction;
+  version: 'legacy' | 0;
+  // serialized size in bytes, at most PACKET_DATA_SIZE
+  size: number;
+  blockhash: string;
+  lastValidBlockHeight: number;
+};
+
+// Signs a legacy transaction, or a v0 transaction compiled against lookup tables
+function signTransaction(
+  payer: Account,
+  instructions: TransactionInstruction[],
+  blockhash: string,
+  lookupTables?: AddressLookupTableAccount[],
+): Transaction | VersionedTransaction {
+  if (lookupTables) {
+    const transaction = new VersionedTransaction(new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables));
+    transaction.sign([payer]);
+    return transaction;
+  }
+  const transaction = new Transaction().add(...instructions);
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = payer.publicKey;
+  transaction.sign(payer);
+  return transaction;
+}
+
+// Builds and signs a transaction out of instructions. With lookup tables the transaction is a v0
+// transaction compiled against them, without it or when the v0 compilation fails it is a legacy
+// transaction. Throws when the serialized transaction doesn't fit in a packet.
+export async function buildTransaction(
+  connection: Pick<Connection, 'getLatestBlockhash'>,
+  payer: Account,
+  instructions: TransactionInstruction[],
+  lookupTables?: AddressLookupTableAccount[],
+): Promise<BuiltTransaction> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+
+  let version: BuiltTransaction['version'] = 'legacy';
+  let transaction: Transaction | VersionedTransaction | undefined;
+  let serialized: Uint8Array | undefined;
+  if (lookupTables) {
+    try {
+      transaction = signTransaction(payer, instructions, blockhash, lookupTables);
+      serialized = transaction.serialize();
+      version = 0;
+    } catch (err) {
+      logger.warn('failed to build v0 transaction, falling back to legacy', {
+        instructions: instructions.length,
+        error: err,
+      });
+    }
+  }
+  if (!transaction || !serialized) {
+    try {
+      transaction = signTransaction(payer, instructions, blockhash);
+      serialized = transaction.serialize();
+    } catch (err) {
+      throw new Error(`failed to build legacy transaction of ${instructions.length} instructions: ${err}`);
+    }
+  }
+
+  if (serialized.length > PACKET_DATA_SIZE) {
+    throw new Error(`transaction too large: ${serialized.length} bytes > ${PACKET_DATA_SIZE}`);
+  }
+
+  return {
+    transaction,
+    version,
+    size: serialized.length,
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
@@ -4,26 +4,27 @@ import {
   ASSOCIATED_TOKEN_PROGRAM_ID,
   Token,
   TOKEN_PROGRAM_ID,
-} from "@solana/spl-token";
-import { Connection, PublicKey } from "@solana/web3.js";
+} from '@solana/spl-token';
+import { Connection, PublicKey } from '@solana/web3.js';
 import {
   OBLIGATION_SIZE,
   parseObligation,
   parseReserve,
   Reserve,
   RESERVE_SIZE,
-} from "@solendprotocol/solend-sdk";
-import BigNumber from "bignumber.js";
-import { LiquidityToken, MarketConfig, TokenCount } from "global";
-import { findWhere } from "underscore";
-import { TokenOracleData } from "./oracle";
-import { Borrow } from "./refreshObligation";
-
-export const WAD = new BigNumber(`1${"".padEnd(18, "0")}`);
-export const U64_MAX = "18446744073709551615";
+} from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import { LiquidityToken, MarketConfig, TokenCount } from 'global';
+import { findWhere } from 'underscore';
+import { LiquidatorConnection } from './connection';
+import { TokenOracleData } from './oracle';
+import { Borrow } from './refreshObligation';
+
+export const WAD = new BigNumber(`1${''.padEnd(18, '0')}`);
+export const U64_MAX = '18446744073709551615';
 const INITIAL_COLLATERAL_RATIO = 1;
 const INITIAL_COLLATERAL_RATE = new BigNumber(
-  INITIAL_COLLATERAL_RATIO
+  INITIAL_COLLATERAL_RATIO,
 ).multipliedBy(WAD);
 
 // Converts amount to human (rebase with decimals)
@@ -35,7 +36,7 @@ export function toHuman(market: MarketConfig, amount: string, symbol: string) {
 export function toBaseUnit(
   market: MarketConfig,
   amount: string,
-  symbol: string
+  symbol: string,
 ) {
   if (amount === U64_MAX) return amount;
   const decimals = getDecimals(market, symbol);
@@ -49,9 +50,9 @@ function toBaseUnitDec(amount: string, decimals: number) {
     throw new Error(`Invalid decimal ${decimals}`);
   }
   if ((amount.match(/\./g) || []).length > 1) {
-    throw new Error("Too many decimal points");
+    throw new Error('Too many decimal points');
   }
-  let decimalIndex = amount.indexOf(".");
+  let decimalIndex = amount.indexOf('.');
   let precision;
   if (decimalIndex === -1) {
     precision = 0;
@@ -67,7 +68,7 @@ function toBaseUnitDec(amount: string, decimals: number) {
     return (
       amount.slice(0, decimalIndex) +
       amount.slice(decimalIndex + 1) +
-      "".padEnd(numTrailingZeros, "0")
+      ''.padEnd(numTrailingZeros, '0')
     );
   }
   return (
@@ -85,7 +86,7 @@ function getDecimals(market: MarketConfig, symbol: string) {
 export function getTokenInfo(market: MarketConfig, symbol: string) {
   const tokenInfo = findWhere(
     market.reserves.map((reserve) => reserve.liquidityToken),
-    { symbol }
+    { symbol },
   );
   if (!tokenInfo) {
     throw new Error(`Could not find ${symbol} in config.assets`);
@@ -96,7 +97,7 @@ export function getTokenInfo(market: MarketConfig, symbol: string) {
 export function getTokenInfoFromMarket(market: MarketConfig, symbol: string) {
   const liquidityToken: LiquidityToken = findWhere(
     market.reserves.map((reserve) => reserve.liquidityToken),
-    { symbol }
+    { symbol },
   )!;
   if (!liquidityToken) {
     throw new Error(`Could not find ${symbol} in config.assets`);
@@ -116,7 +117,7 @@ export function wait(ms: number) {
 
 function toHumanDec(amount: string, decimals: number) {
   let amountStr = amount.slice(
-    amount.length - Math.min(decimals, amount.length)
+    amount.length - Math.min(decimals, amount.length),
   );
   if (decimals > amount.length) {
     for (let i = 0; i < decimals - amount.length; i += 1) {
@@ -129,8 +130,8 @@ function toHumanDec(amount: string, decimals: number) {
       amountStr = amount[i] + amountStr;
     }
   }
-  amountStr = stripEnd(amountStr, "0");
-  amountStr = stripEnd(amountStr, ".");
+  amountStr = stripEnd(amountStr, '0');
+  amountStr = stripEnd(amountStr, '.');
   return amountStr;
 }
 
@@ -148,17 +149,17 @@ function stripEnd(s: string, c: string) {
 export function getProgramIdForCurrentDeployment(): string {
   return (
     {
-      beta: "BLendhFh4HGnycEDDFhbeFEUYLP4fXB5tTHMoTX8Dch5",
-      production: "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
-      staging: "ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx",
-    }[process.env.APP || "production"] ||
-    "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo"
+      beta: 'BLendhFh4HGnycEDDFhbeFEUYLP4fXB5tTHMoTX8Dch5',
+      production: 'So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo',
+      staging: 'ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx',
+    }[process.env.APP || 'production'] ||
+    'So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo'
   );
 }
 
 export async function getObligations(
-  connection: Connection,
-  lendingMarketAddr
+  connection: LiquidatorConnection,
+  lendingMarketAddr,
 ) {
   const programID = getProgramIdForCurrentDeployment();
   const resp = await connection.getProgramAccounts(new PublicKey(programID), {
@@ -174,15 +175,18 @@ export async function getObligations(
         dataSize: OBLIGATION_SIZE,
       },
     ],
-    encoding: "base64",
+    encoding: 'base64',
   });
 
   return resp.map((account) =>
-    parseObligation(account.pubkey, account.account)
+    parseObligation(account.pubkey, account.account),
   );
 }
 
-export async function getReserves(connection: Connection, lendingMarketAddr) {
+export async function getReserves(
+  connection: LiquidatorConnection,
+  lendingMarketAddr,
+) {
   const programID = getProgramIdForCurrentDeployment();
   const resp = await connection.getProgramAccounts(new PublicKey(programID), {
     commitment: connection.commitment,
@@ -197,7 +201,7 @@ export async function getReserves(connection: Connection, lendingMarketAddr) {
         dataSize: RESERVE_SIZE,
       },
     ],
-    encoding: "base64",
+    encoding: 'base64',
   });
 
   return resp.map((account) => parseReserve(account.pubkey, account.account));
@@ -207,7 +211,7 @@ export async function getWalletBalances(
   connection,
   wallet,
   tokensOracle,
-  market
+  market,
 ) {
   const promises: Promise<any>[] = [];
   for (const [key, value] of Object.entries(tokensOracle)) {
@@ -219,8 +223,8 @@ export async function getWalletBalances(
           market,
           wallet,
           tokenOracleData.mintAddress,
-          tokenOracleData.symbol
-        )
+          tokenOracleData.symbol,
+        ),
       );
     }
   }
@@ -229,29 +233,23 @@ export async function getWalletBalances(
 }
 
 export async function getWalletTokenData(
-  connection: Connection,
+  connection: LiquidatorConnection,
   market: MarketConfig,
   wallet,
   mintAddress,
-  symbol
+  symbol,
 ) {
-  const token = new Token(
-    connection,
-    new PublicKey(mintAddress),
-    TOKEN_PROGRAM_ID,
-    wallet.publicKey
-  );
   const userTokenAccount = await Token.getAssociatedTokenAddress(
     ASSOCIATED_TOKEN_PROGRAM_ID,
     TOKEN_PROGRAM_ID,
     new PublicKey(mintAddress),
-    wallet.publicKey
+    wallet.publicKey,
   );
 
   try {
-    const result = await token.getAccountInfo(userTokenAccount);
-    const balance = toHuman(market, result!.amount.toString(), symbol);
-    const balanceBase = result!.amount.toString();
+    const { value } = await connection.getTokenAccountBalance(userTokenAccount);
+    const balance = toHuman(market, value.amount, symbol);
+    const balanceBase = value.amount;
 
     return {
       balance: Number(balance),
@@ -269,7 +267,7 @@ export async function getWalletTokenData(
 
 export const findAssociatedTokenAddress = async (
   walletAddress: PublicKey,
-  tokenMintAddress: PublicKey
+  tokenMintAddress: PublicKey,
 ) =>
   (
     await PublicKey.findProgramAddress(
@@ -278,14 +276,14 @@ export const findAssociatedTokenAddress = async (
         TOKEN_PROGRAM_ID.toBuffer(),
         tokenMintAddress.toBuffer(),
       ],
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      ASSOCIATED_TOKEN_PROGRAM_ID,
     )
   )[0];
 
 export const getWalletBalance = async (
   connection: Connection,
   mint: PublicKey,
-  walletAddress: PublicKey
+  walletAddress: PublicKey,
 ): Promise<number> => {
   const userAta = await findAssociatedTokenAddress(walletAddress, mint);
 
@@ -302,11 +300,11 @@ export const getWalletBalance = async (
 
 export function getWalletDistTarget() {
   const target: TokenCount[] = [];
-  const targetRaw = process.env.TARGETS || "";
+  const targetRaw = process.env.TARGETS || '';
 
-  const targetDistributions = targetRaw.split(" ");
+  const targetDistributions = targetRaw.split(' ');
   for (const dist of targetDistributions) {
-    const tokens = dist.split(":");
+    const tokens = dist.split(':');
     const asset = tokens[0];
     const unitAmount = tokens[1];
 
@@ -318,9 +316,31 @@ export function getWalletDistTarget() {
   return target;
 }
 
+// The program does all of its accounting in Decimal/Rate, i.e. integers scaled by WAD where
+// every multiplication and division truncates. The helpers below mirror that so the
+// offchain values match what the program computes down to the last wad.
+export const toWad = (value: BigNumber.Value) =>
+  new BigNumber(value).multipliedBy(WAD).integerValue(BigNumber.ROUND_DOWN);
+
+export const wadMul = (a: BigNumber, b: BigNumber) =>
+  a.multipliedBy(b).dividedToIntegerBy(WAD);
+
+export const wadDiv = (a: BigNumber, b: BigNumber) =>
+  a.multipliedBy(WAD).dividedToIntegerBy(b);
+
+export const fromWad = (value: BigNumber) => value.dividedBy(WAD);
+
+export const percentToWad = (percent: number) =>
+  new BigNumber(percent).multipliedBy(WAD).dividedToIntegerBy(100);
+
+export const bpsToWad = (bps: BigNumber.Value) =>
+  new BigNumber(bps).multipliedBy(WAD).dividedToIntegerBy(10000);
+
+// Returns the collateral exchange rate scaled by WAD, computed like the program's
+// Reserve::collateral_exchange_rate with truncating fixed point division.
 export const getCollateralExchangeRate = (reserve: Reserve): BigNumber => {
   const totalLiquidity = new BigNumber(
-    reserve.liquidity.availableAmount.toString()
+    reserve.liquidity.availableAmount.toString(),
   )
     .multipliedBy(WAD)
     .plus(new BigNumber(reserve.liquidity.borrowedAmountWads.toString()));
@@ -333,7 +353,8 @@ export const getCollateralExchangeRate = (reserve: Reserve): BigNumber => {
     const { mintTotalSupply } = collateral;
     rate = new BigNumber(mintTotalSupply.toString())
       .multipliedBy(WAD)
-      .dividedBy(new BigNumber(totalLiquidity.toString()));
+      .multipliedBy(WAD)
+      .dividedToIntegerBy(totalLiquidity);
   }
   return rate;
 };
@@ -0,0 +1,271 @@
+import { ASSOCIATED_TOKEN_PROGRAM_ID, Token, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  Account, ComputeBudgetProgram, Keypair, PublicKey, SystemProgram,
+} from '@solana/web3.js';
+import { parseObligation, parseReserve } from '@solendprotocol/solend-sdk';
+import BN from 'bn.js';
+import fs from 'fs';
+import { MarketConfig, MarketConfigReserve } from 'global';
+import {
+  encodeObligationAccount,
+  encodeReserveAccount,
+  FakeConnection,
+} from 'libs/fakeConnection';
+import { readJournal } from 'libs/journal';
+import { calculateRefreshedObligation, isObligationUnhealthy } from 'libs/refreshObligation';
+import { getProgramIdForCurrentDeployment } from 'libs/utils';
+import { LendingInstruction } from 'models/instructions/instruction';
+import os from 'os';
+import path from 'path';
+import { runLiquidator } from './liquidate';
+
+const CONCURRENCY = { markets: 1, obligations: 1, liquidations: 1 };
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+
+const getAssociatedTokenAddress = (mint: string, owner: PublicKey) => Token.getAssociatedTokenAddress(
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  new PublicKey(mint),
+  owner,
+);
+
+const reserveConfig = (symbol: string, decimals: number): MarketConfigReserve => ({
+  liquidityToken: {
+    coingeckoID: symbol,
+    decimals,
+    logo: '',
+    mint: newAddress(),
+    name: symbol,
+    symbol,
+    volume24h: '0',
+  },
+  pythOracle: newAddress(),
+  switchboardOracle: newAddress(),
+  address: newAddress(),
+  collateralMintAddress: newAddress(),
+  collateralSupplyAddress: newAddress(),
+  liquidityAddress: newAddress(),
+  liquidityFeeReceiverAddress: newAddress(),
+  userSupplyCap: 0,
+});
+
+// A market where SOL is deposited and USDC borrowed, at a collateral exchange rate of 1
+function setUpMarket(connection: FakeConnection) {
+  const sol = reserveConfig('SOL', 9);
+  const usdc = reserveConfig('USDC', 6);
+  const market: MarketConfig = {
+    name: 'test',
+    isPrimary: true,
+    description: '',
+    creator: newAddress(),
+    address: newAddress(),
+    authorityAddress: newAddress(),
+    owner: newAddress(),
+    reserves: [sol, usdc],
+  };
+  [
+    { reserve: sol, available: new BN('1000000000000') },
+    { reserve: usdc, available: new BN('1000000000000') },
+  ].forEach(({ reserve, available }) => connection.setAccount(new PublicKey(reserve.address), {
+    data: encodeReserveAccount({
+      lendingMarket: new PublicKey(market.address),
+      liquidityMintPubkey: new PublicKey(reserve.liquidityToken.mint),
+      liquidityMintDecimals: reserve.liquidityToken.decimals,
+      liquiditySupplyPubkey: new PublicKey(reserve.liquidityAddress),
+      liquidityPythOracle: new PublicKey(reserve.pythOracle),
+      liquiditySwitchboardOracle: new PublicKey(reserve.switchboardOracle),
+      liquidityAvailableAmount: available,
+      collateralMintPubkey: new PublicKey(reserve.collateralMintAddress),
+      collateralMintTotalSupply: available,
+      collateralSupplyPubkey: new PublicKey(reserve.collateralSupplyAddress),
+      loanToValueRatio: 75,
+      liquidationThreshold: 80,
+      maxLiquidationThreshold: 80,
+      liquidationBonus: 5,
+      maxLiquidationBonus: 5,
+      feeReceiver: new PublicKey(reserve.liquidityFeeReceiverAddress),
+    }),
+  }));
+  connection.setPrice(market, 'SOL', 100);
+  connection.setPrice(market, 'USDC', 1);
+  return { market, sol, usdc };
+}
+
+// An obligation with 10 SOL deposited and the given USDC borrowed
+function setUpObligation(
+  connection: FakeConnection,
+  { market, sol, usdc }: ReturnType<typeof setUpMarket>,
+  borrowedUSDC: number,
+) {
+  const address = Keypair.generate().publicKey;
+  connection.setAccount(address, {
+    data: encodeObligationAccount(
+      new PublicKey(market.address),
+      Keypair.generate().publicKey,
+      [{ depositReserve: new PublicKey(sol.address), depositedAmount: new BN('10000000000') }],
+      [{
+        borrowReserve: new PublicKey(usdc.address),
+        borrowedAmountWads: new BN(borrowedUSDC).mul(new BN('1000000')).mul(new BN('1000000000000000000')),
+      }],
+    ),
+  });
+  return address;
+}
+
+async function getRefreshedObligation(connection: FakeConnection, address: PublicKey) {
+  const obligation = parseObligation(address, (await connection.getAccountInfo(address))!)!;
+  const reserves = await Promise.all(obligation.info.deposits.map((deposit) => deposit.depositReserve)
+    .concat(obligation.info.borrows.map((borrow) => borrow.borrowReserve))
+    .map(async (reserve) => parseReserve(reserve, (await connection.getAccountInfo(reserve))!)));
+  return calculateRefreshedObligation(obligation.info, reserves, connection.tokensOracle);
+}
+
+describe('runLiquidator', () => {
+  let journalFile: string;
+
+  beforeEach(() => {
+    journalFile = path.join(os.tmpdir(), `liquidations-${process.pid}-${Date.now()}.jsonl`);
+    process.env.LIQUIDATION_JOURNAL_FILE = journalFile;
+    process.env.FLASH_LOAN = 'off';
+    process.env.LOG_LEVEL = 'error';
+    delete process.env.PREFLIGHT_MIN_PROFIT_USD;
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(journalFile)) {
+      fs.unlinkSync(journalFile);
+    }
+  });
+
+  it('liquidates an unhealthy obligation until it is healthy', async () => {
+    const connection = new FakeConnection();
+    const fixture = setUpMarket(connection);
+    const { market, sol, usdc } = fixture;
+    const obligation = setUpObligation(connection, fixture, 810);
+    const payer = new Account();
+    connection.setAccount(payer.publicKey, {
+      owner: SystemProgram.programId,
+      lamports: 1000000000,
+      data: Buffer.alloc(0),
+    });
+    const repayAccount = await getAssociatedTokenAddress(usdc.liquidityToken.mint, payer.publicKey);
+    connection.setTokenAccount(repayAccount, new PublicKey(usdc.liquidityToken.mint), payer.publicKey, 1000000000);
+
+    await runLiquidator({
+      connection, markets: [market], payer, epochs: 1, concurrency: CONCURRENCY,
+    });
+
+    expect(connection.transactions).toHaveLength(1);
+    const [transaction] = connection.transactions;
+    expect(transaction.err).toBeNull();
+
+    const lendingProgramId = new PublicKey(getProgramIdForCurrentDeployment());
+    const { instructions } = transaction;
+    expect(instructions.map((instruction) => {
+      if (instruction.programId.equals(lendingProgramId)) {
+        return LendingInstruction[instruction.data[0]];
+      }
+      if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+        return 'ComputeBudget';
+      }
+      return instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) ? 'CreateAssociatedTokenAccount' : instruction.programId.toBase58();
+    })).toEqual([
+      'ComputeBudget',
+      'ComputeBudget',
+      'RefreshReserve',
+      'RefreshReserve',
+      'RefreshObligation',
+      'CreateAssociatedTokenAccount',
+      'CreateAssociatedTokenAccount',
+      'LiquidateObligationAndRedeemReserveCollateral',
+    ]);
+    expect(instructions[2].keys[0].toBase58()).toBe(sol.address);
+    expect(instructions[3].keys[0].toBase58()).toBe(usdc.address);
+    const liquidation = instructions[7];
+    expect(liquidation.keys[0].equals(repayAccount)).toBe(true);
+    expect(liquidation.keys[3].toBase58()).toBe(usdc.address);
+    expect(liquidation.keys[5].toBase58()).toBe(sol.address);
+    expect(liquidation.keys[10].equals(obligation)).toBe(true);
+    // 20% of the $810 borrowed value is repaid
+    expect(new BN(liquidation.data.slice(1, 9), 'le').toString()).toBe('162000000');
+
+    expect(isObligationUnhealthy(await getRefreshedObligation(connection, obligation))).toBe(false);
+    expect(connection.getTokenBalance(repayAccount)!.toString()).toBe('838000000');
+    const withdrawAccount = await getAssociatedTokenAddress(sol.liquidityToken.mint, payer.publicKey);
+    // $162 repaid plus the 5% bonus, in SOL, less the minimum protocol fee of one lamport
+    expect(connection.getTokenBalance(withdrawAccount)!.toString()).toBe('1700999999');
+
+    const [record] = readJournal(journalFile);
+    expect(record).toMatchObject({
+      obligation: obligation.toBase58(),
+      repaySymbol: 'USDC',
+      withdrawSymbol: 'SOL',
+      outcome: 'landed',
+      signature: transaction.signature,
+      fees: {
+        transactionFeeLamports: 5000,
+        // the SOL and cSOL accounts of the payer
+        rentLamports: 2 * 2039280,
+      },
+    });
+  });
+
+  it('journals a liquidation below the minimum simulated profit as aborted without sending it', async () => {
+    process.env.PREFLIGHT_MIN_PROFIT_USD = '1000';
+    const connection = new FakeConnection();
+    const fixture = setUpMarket(connection);
+    const obligation = setUpObligation(connection, fixture, 810);
+    const payer = new Account();
+    const repayAccount = await getAssociatedTokenAddress(fixture.usdc.liquidityToken.mint, payer.publicKey);
+    connection.setTokenAccount(repayAccount, new PublicKey(fixture.usdc.liquidityToken.mint), payer.publicKey, 1000000000);
+
+    await runLiquidator({
+      connection, markets: [fixture.market], payer, epochs: 1, concurrency: CONCURRENCY,
+    });
+
+    expect(connection.transactions).toHaveLength(0);
+    expect(readJournal(journalFile)).toEqual([expect.objectContaining({
+      obligation: obligation.toBase58(),
+      outcome: 'aborted',
+      error: expect.stringMatching(/below the minimum of \$1000/),
+    })]);
+  });
+
+  it('keeps liquidating the other markets when one fails to load', async () => {
+    const connection = new FakeConnection();
+    const fixture = setUpMarket(connection);
+    setUpObligation(connection, fixture, 810);
+    const payer = new Account();
+    const repayAccount = await getAssociatedTokenAddress(fixture.usdc.liquidityToken.mint, payer.publicKey);
+    connection.setTokenAccount(repayAccount, new PublicKey(fixture.usdc.liquidityToken.mint), payer.publicKey, 1000000000);
+    // its prices can't be read
+    const brokenMarket = {
+      ...fixture.market,
+      address: newAddress(),
+      reserves: fixture.market.reserves.map((reserve) => ({ ...reserve, pythOracle: 'not an address' })),
+    };
+
+    await runLiquidator({
+      connection, markets: [brokenMarket, fixture.market], payer, epochs: 1, concurrency: CONCURRENCY,
+    });
+
+    expect(connection.transactions).toHaveLength(1);
+    expect(connection.transactions[0].err).toBeNull();
+  });
+
+  it('leaves healthy obligations alone', async () => {
+    const connection = new FakeConnection();
+    const fixture = setUpMarket(connection);
+    setUpObligation(connection, fixture, 700);
+    const payer = new Account();
+    const repayAccount = await getAssociatedTokenAddress(fixture.usdc.liquidityToken.mint, payer.publicKey);
+    connection.setTokenAccount(repayAccount, new PublicKey(fixture.usdc.liquidityToken.mint), payer.publicKey, 1000000000);
+
+    await runLiquidator({
+      connection, markets: [fixture.market], payer, epochs: 1, concurrency: CONCURRENCY,
+    });
+
+    expect(connection.transactions).toHaveLength(0);
+  });
+});
@@ -1,152 +1,955 @@
-import { Account, Connection, PublicKey } from "@solana/web3.js";
-import { parseObligation } from "@solendprotocol/solend-sdk";
-import bs58 from "bs58";
-import dotenv from "dotenv";
-import { liquidateAndRedeem } from "libs/actions/liquidateAndRedeem";
-import { getTokensOracleData } from "libs/oracle";
-import { Borrow, calculateRefreshedObligation } from "libs/refreshObligation";
-import { readSecret } from "libs/secret";
+import { Account, Connection, PublicKey } from '@solana/web3.js';
+import { parseObligation, Reserve } from '@solendprotocol/solend-sdk';
+import BigNumber from 'bignumber.js';
+import bs58 from 'bs58';
+import dotenv from 'dotenv';
+import { MarketConfig } from 'global';
+import { MarketAccountCache } from 'libs/accountCache';
+import {
+  flashLiquidateAndRedeem,
+  FlashLoanMode,
+  getFlashLoanFee,
+  getFlashLoanMode,
+} from 'libs/actions/flashLiquidateAndRedeem';
+import { liquidateAndRedeem } from 'libs/actions/liquidateAndRedeem';
+import {
+  getMaxPriorityFeeLamports,
+  getPriorityFeeConfig,
+  PriorityFeeConfig,
+} from 'libs/computeBudget';
+import { LiquidatorConnection } from 'libs/connection';
+import {
+  getControlPort,
+  isControlServerEnabled,
+  LiquidatorStatus,
+  startControlServer,
+  WalletBalance,
+} from 'libs/controlPlane';
+import {
+  AbortedOutcome,
+  appendJournalRecord,
+  getLamportsValue,
+  getTransactionMeta,
+} from 'libs/journal';
+import {
+  getLogger,
+  newCorrelationId,
+  withLogContext,
+} from 'libs/logger';
+import { LookupTableManager } from 'libs/lookupTables';
+import {
+  epochDuration,
+  getMetricsPort,
+  instrumentConnection,
+  isMetricsEnabled,
+  liquidationsAttempted,
+  liquidationsFailed,
+  liquidationsSucceeded,
+  obligationsScanned,
+  oracleReadFailures,
+  startMetricsServer,
+  underwaterObligations,
+  walletBalanceUSD,
+} from 'libs/metrics';
+import { recordMissedOpportunity } from 'libs/missedOpportunity';
+import { getTokensOracleData, TokenOracleData } from 'libs/oracle';
+import {
+  getPaperWalletValue,
+  PaperWallet,
+  parsePaperWallet,
+} from 'libs/paperWallet';
+import {
+  getObligationPriceIssues,
+  getOracleLimits,
+  OracleLimitsConfig,
+} from 'libs/oracleGuard';
+import {
+  getMaxRepayAmounts,
+  getRepayableBorrows,
+  LiquidationCandidate,
+  planLiquidation,
+} from 'libs/planLiquidation';
+import {
+  decodeFailure,
+  describeFailure,
+  RetryAction,
+} from 'libs/programErrors';
+import {
+  Borrow,
+  calculateRefreshedObligation,
+  Deposit,
+  isObligationUnhealthy,
+  RefreshedObligation,
+} from 'libs/refreshObligation';
+import {
+  getRealizedProfit,
+  MintPrice,
+  RealizedProfit,
+} from 'libs/realizedProfit';
+import { createConnection } from 'libs/rateLimiter';
+import { rebalanceWallet } from 'libs/rebalanceWallet';
+import { getRpcEndpoints, RpcPool } from 'libs/rpcPool';
+import {
+  ConcurrencyConfig,
+  forEachConcurrently,
+  getConcurrencyConfig,
+  KeyedLock,
+  Semaphore,
+} from 'libs/scheduler';
+import { readSecret } from 'libs/secret';
+import { SendOutcome } from 'libs/sender';
+import {
+  getCollateralUnitPrice,
+  getMinProfitUSD,
+  getUnitPrice,
+  Preflight,
+  ProfitAbortError,
+  SimulationError,
+} from 'libs/simulation';
+import { getSwapProvider, SwapProvider } from 'libs/swap';
 import {
   getObligations,
   getReserves,
-  getWalletTokenData,
-  sortBorrows,
+  getWalletBalances,
+  getWalletDistTarget,
   wait,
-} from "libs/utils";
-import { getMarkets } from "./config";
+} from 'libs/utils';
+import { find } from 'underscore';
+import { getMarkets } from './config';
 
 dotenv.config();
 
-async function runLiquidator() {
-  const rpcEndpoint = process.env.RPC_ENDPOINT;
-  if (!rpcEndpoint) {
-    throw new Error(
-      "Pls provide an private RPC endpoint in docker-compose.yaml"
+const logger = getLogger('liquidate');
+
+// attempts left for an obligation after failures the retry policy says are worth retrying
+const MAX_LIQUIDATION_RETRIES = 3;
+const SLOT_MS = 400;
+
+// Wallet, or paper wallet, balances in USD of the market's tokens, for the metrics and status
+async function recordWalletBalances(
+  connection: LiquidatorConnection,
+  payer: Account,
+  paperWallet: PaperWallet | undefined,
+  tokensOracle: TokenOracleData[],
+  market: MarketConfig,
+  status: LiquidatorStatus,
+) {
+  const balances: { symbol: string; balance: number }[] = paperWallet
+    ? Object.keys(paperWallet.balances).map((symbol) => ({
+      symbol,
+      balance: paperWallet.balances[symbol].toNumber(),
+    }))
+    : await getWalletBalances(connection, payer, tokensOracle, market);
+  const walletBalances: WalletBalance[] = balances.map(
+    ({ symbol, balance }) => {
+      const oracle = find(tokensOracle, (token) => token.symbol === symbol);
+      // a negative balance means the token account is missing or the read failed
+      if (!oracle || balance < 0) {
+        return { symbol, balance, balanceUSD: null };
+      }
+      const balanceUSD = oracle.price.multipliedBy(balance).toNumber();
+      walletBalanceUSD.set({ symbol }, balanceUSD);
+      return { symbol, balance, balanceUSD };
+    },
+  );
+  status.setWalletBalances(market.address, walletBalances);
+}
+
+// Appends the attempt to the journal, with the fee paid when its transaction made it on chain
+// and the profit realized when it landed
+async function journalLiquidation(
+  connection: LiquidatorConnection,
+  payer: Account,
+  market: MarketConfig,
+  obligation: string,
+  candidate: LiquidationCandidate,
+  withdrawReserve: Reserve,
+  tokensOracle: TokenOracleData[],
+  flashLoan: boolean,
+  redeem: boolean,
+  maxPriorityFeeLamports: BigNumber | undefined,
+  outcome: SendOutcome | AbortedOutcome,
+) {
+  const meta = outcome.signature
+    ? await getTransactionMeta(connection, outcome.signature)
+    : null;
+  const transactionFeeLamports = meta ? meta.fee : null;
+  const transactionFeeUSD =
+    transactionFeeLamports === null
+      ? null
+      : getLamportsValue(transactionFeeLamports, tokensOracle);
+  const failure =
+    outcome.status === 'failed'
+      ? decodeFailure(outcome.error, outcome.logs)
+      : undefined;
+  const error =
+    outcome.status === 'aborted'
+      ? outcome.error
+      : failure && describeFailure(failure);
+  const prices: Record<string, string> = {};
+  tokensOracle
+    .filter((oracle) =>
+      [candidate.borrow.symbol, candidate.deposit.symbol, 'SOL'].includes(
+        oracle.symbol,
+      ),
+    )
+    .forEach((oracle) => {
+      prices[oracle.symbol] = oracle.price.toString();
+    });
+
+  let realized: RealizedProfit | undefined;
+  if (outcome.status === 'landed' && meta) {
+    // the collateral itself is kept by a liquidation without redeem
+    const mintPrices: Record<string, MintPrice> = {};
+    const withdrawConfig = find(
+      market.reserves,
+      (reserve) =>
+        reserve.address === candidate.deposit.depositReserve.toString(),
+    );
+    if (withdrawConfig) {
+      mintPrices[withdrawConfig.collateralMintAddress] = {
+        symbol: `c${candidate.deposit.symbol}`,
+        unitPrice: getCollateralUnitPrice(
+          getUnitPrice(tokensOracle, withdrawConfig.liquidityToken.mint),
+          withdrawReserve,
+        ),
+      };
+    }
+    realized = getRealizedProfit(
+      meta,
+      payer.publicKey.toBase58(),
+      tokensOracle,
+      mintPrices,
     );
+    logger.info('realized profit', {
+      signature: outcome.signature,
+      profit: realized.profit.toFixed(2),
+      expectedProfit: candidate.score.toFixed(2),
+      legs: realized.legs,
+      solChangeLamports: realized.solChangeLamports,
+      feeLamports: realized.feeLamports,
+      rentLamports: realized.rentLamports,
+    });
   }
-  const markets = await getMarkets();
-  const connection = new Connection(rpcEndpoint, "confirmed");
-  // liquidator's keypair.
-  const secret = readSecret("keypair");
 
-  const bs = bs58.decode(secret);
+  appendJournalRecord({
+    event: 'liquidation',
+    timestamp: new Date().toISOString(),
+    market: market.address,
+    obligation,
+    repaySymbol: candidate.borrow.symbol,
+    withdrawSymbol: candidate.deposit.symbol,
+    repayAmount: candidate.amount.repayAmount.toFixed(0),
+    withdrawAmount: candidate.amount.withdrawLiquidityAmount.toFixed(0),
+    repayValue: candidate.amount.repayValue.toFixed(2),
+    withdrawValue: candidate.amount.withdrawValue.toFixed(2),
+    expectedProfit: candidate.score.toFixed(2),
+    realizedProfit:
+      outcome.status === 'landed'
+        ? realized?.profit.toFixed(2) ?? null
+        : undefined,
+    realizedLegs: realized?.legs,
+    prices,
+    flashLoan,
+    redeem,
+    signature: outcome.signature,
+    outcome: outcome.status,
+    failureClass: failure?.failureClass,
+    error,
+    fees: {
+      maxPriorityFeeLamports: maxPriorityFeeLamports
+        ? maxPriorityFeeLamports.toFixed(0)
+        : null,
+      transactionFeeLamports,
+      transactionFeeUSD: transactionFeeUSD ? transactionFeeUSD.toFixed(6) : null,
+      rentLamports: realized?.rentLamports,
+    },
+  });
+}
 
-  const payer = new Account(bs);
+// What the obligations of a market are evaluated and liquidated with during a pass over it
+type MarketContext = {
+  connection: LiquidatorConnection;
+  payer: Account;
+  paperWallet?: PaperWallet;
+  swapProvider: SwapProvider;
+  market: MarketConfig;
+  tokensOracle: TokenOracleData[];
+  allReserves: any[];
+  target: ReturnType<typeof getWalletDistTarget>;
+  oracleLimits: OracleLimitsConfig;
+  flashLoanMode: FlashLoanMode;
+  priorityFeeConfig: PriorityFeeConfig;
+  minProfit: number;
+  lookupTables: LookupTableManager;
+  status: LiquidatorStatus;
+  // obligations found unhealthy during the pass
+  underwater: Set<string>;
+  // held per obligation and per wallet token while a liquidation reads and spends its balances
+  walletLocks: KeyedLock;
+  // bounds the liquidation transactions in flight
+  liquidations: Semaphore;
+};
 
-  console.log(`
-    app: ${process.env.APP}
-    rpc: ${rpcEndpoint}
-    
-    Running against ${markets.length} pools
-  `);
+type LiquidationAttempt = {
+  useFlashLoan: boolean;
+  outcome: SendOutcome;
+};
 
-  for (let epoch = 0; ; epoch += 1) {
-    for (const market of markets) {
-      const tokensOracle = await getTokensOracleData(connection, market);
-      const allObligations = await getObligations(connection, market.address);
-      const allReserves = await getReserves(connection, market.address);
+// Sizes, plans and sends one liquidation of an unhealthy obligation. Resolves once the
+// transaction is final, or with undefined when nothing was sent.
+async function attemptLiquidation(
+  context: MarketContext,
+  obligation: any,
+  refreshedObligation: RefreshedObligation,
+  redeem: boolean,
+): Promise<LiquidationAttempt | undefined> {
+  const {
+    connection,
+    payer,
+    paperWallet,
+    swapProvider,
+    market,
+    tokensOracle,
+    allReserves,
+    flashLoanMode,
+    priorityFeeConfig,
+    minProfit,
+    lookupTables,
+  } = context;
+  const { borrowedValue, unhealthyBorrowValue } = refreshedObligation;
 
-      for (let obligation of allObligations) {
-        try {
-          while (obligation) {
-            const { borrowedValue, unhealthyBorrowValue, deposits, borrows } =
-              calculateRefreshedObligation(
-                obligation.info,
-                allReserves,
-                tokensOracle
-              );
+  // size every repayable borrow against what the wallet actually holds,
+  // unless every liquidation is funded by a flash loan
+  let maxRepayAmounts: Record<string, BigNumber> | undefined;
+  if (flashLoanMode !== 'always' && paperWallet) {
+    maxRepayAmounts = paperWallet.getMaxRepayAmounts(
+      market,
+      refreshedObligation.borrows,
+    );
+  } else if (flashLoanMode !== 'always') {
+    maxRepayAmounts = await getMaxRepayAmounts(
+      connection,
+      market,
+      payer,
+      refreshedObligation.borrows,
+    );
+  }
 
-            // Do nothing if obligation is healthy
-            if (borrowedValue.isLessThanOrEqualTo(unhealthyBorrowValue)) {
-              break;
-            }
-
-            // select repay token that has the highest market value
-            const selectedBorrow: Borrow | undefined = sortBorrows(borrows)[0];
-
-            // select the withdrawal collateral token with the highest market value
-            let selectedDeposit;
-            deposits.forEach((deposit) => {
-              if (
-                !selectedDeposit ||
-                deposit.marketValue.gt(selectedDeposit.marketValue)
-              ) {
-                selectedDeposit = deposit;
-              }
-            });
+  // rank every valid repay/withdraw pair by expected profit
+  const plan = planLiquidation(refreshedObligation, allReserves, {
+    maxRepayAmounts,
+  });
+  let selected = plan.candidates[0];
+  let useFlashLoan = flashLoanMode === 'always';
+  if (!selected && maxRepayAmounts) {
+    const best = planLiquidation(refreshedObligation, allReserves)
+      .candidates[0];
+    if (best && flashLoanMode === 'fallback') {
+      // borrow the repay token instead of holding it
+      selected = best;
+      useFlashLoan = true;
+    } else if (best) {
+      // record what we would have needed to take the best liquidation
+      recordMissedOpportunity({
+        market: market.address,
+        obligation: obligation.pubkey.toString(),
+        symbol: best.borrow.symbol,
+        mintAddress: best.borrow.mintAddress,
+        amountNeeded: best.amount.repayAmount.toFixed(0),
+        walletBalance: maxRepayAmounts[best.borrow.symbol].toFixed(0),
+        expectedProfit: best.score.toFixed(2),
+        reason: `insufficient ${best.borrow.symbol} to liquidate`,
+      });
+    }
+  }
+  if (!selected) {
+    // skip toxic or unprofitable obligations
+    logger.info('no liquidation possible', {
+      rejected: plan.rejected.map(
+        (pair) => `${pair.borrowSymbol}->${pair.depositSymbol} ${pair.reason}`,
+      ),
+    });
+    return undefined;
+  }
+  const selectedBorrow: Borrow = selected.borrow;
+  const selectedDeposit: Deposit = selected.deposit;
+  const liquidationAmount = selected.amount;
 
-            if (!selectedBorrow || !selectedDeposit) {
-              // skip toxic obligations caused by toxic oracle data
-              break;
-            }
+  logger.info('obligation is underwater', {
+    borrowedValue: borrowedValue.toString(),
+    unhealthyBorrowValue: unhealthyBorrowValue.toString(),
+  });
+  logger.info('liquidation pair selected', {
+    repaySymbol: selectedBorrow.symbol,
+    withdrawSymbol: selectedDeposit.symbol,
+    candidates: plan.candidates.length,
+    reason: selected.reason,
+  });
+  logger.info('liquidating obligation', {
+    flashLoan: useFlashLoan,
+    repaySymbol: selectedBorrow.symbol,
+    repayAmount: liquidationAmount.repayAmount.toFixed(0),
+    repayValue: liquidationAmount.repayValue.toFixed(2),
+    withdrawSymbol: selectedDeposit.symbol,
+    withdrawAmount: liquidationAmount.withdrawLiquidityAmount.toFixed(0),
+    withdrawValue: liquidationAmount.withdrawValue.toFixed(2),
+  });
 
-            console.log(`Obligation ${obligation.pubkey.toString()} is underwater
-              borrowedValue: ${borrowedValue.toString()}
-              unhealthyBorrowValue: ${unhealthyBorrowValue.toString()}
-              market address: ${market.address}`);
+  if (paperWallet) {
+    const flashLoanFee = useFlashLoan
+      ? getFlashLoanFee(
+        find(allReserves, (reserve) =>
+          reserve.pubkey.equals(selectedBorrow.borrowReserve),
+        ).info,
+        liquidationAmount.repayAmount,
+      )
+      : undefined;
+    paperWallet.recordLiquidation(market, obligation, selected, flashLoanFee);
+    logger.info('paper wallet value', {
+      valueUSD: getPaperWalletValue(paperWallet.balances, tokensOracle).toFixed(
+        2,
+      ),
+    });
+    return undefined;
+  }
+
+  // never pay more priority fees than the liquidation is worth
+  const maxPriorityFeeLamports = getMaxPriorityFeeLamports(
+    selected.score,
+    tokensOracle,
+    priorityFeeConfig,
+  );
+
+  // value the simulated balance changes before sending
+  const preflight: Preflight = {
+    tokensOracle,
+    withdrawReserve: find(allReserves, (reserve) =>
+      reserve.pubkey.equals(selectedDeposit.depositReserve),
+    ).info,
+    minProfit,
+  };
+
+  const journal = (outcome: SendOutcome | AbortedOutcome) =>
+    journalLiquidation(
+      connection,
+      payer,
+      market,
+      obligation.pubkey.toString(),
+      selected,
+      preflight.withdrawReserve,
+      tokensOracle,
+      useFlashLoan,
+      redeem,
+      maxPriorityFeeLamports,
+      outcome,
+    );
+
+  liquidationsAttempted.inc({ market: market.address });
+  let outcome: SendOutcome;
+  try {
+    if (useFlashLoan) {
+      const repayReserve = find(allReserves, (reserve) =>
+        reserve.pubkey.equals(selectedBorrow.borrowReserve),
+      );
+      outcome = await flashLiquidateAndRedeem(
+        connection,
+        payer,
+        liquidationAmount,
+        selectedBorrow.symbol,
+        selectedDeposit.symbol,
+        market,
+        obligation,
+        repayReserve.info,
+        swapProvider,
+        maxPriorityFeeLamports,
+        lookupTables.getLookupTable(market),
+        preflight,
+      );
+    } else {
+      outcome = await liquidateAndRedeem(
+        connection,
+        payer,
+        liquidationAmount.repayAmount.toFixed(0),
+        selectedBorrow.symbol,
+        selectedDeposit.symbol,
+        market,
+        obligation,
+        maxPriorityFeeLamports,
+        lookupTables.getLookupTable(market),
+        redeem,
+        preflight,
+      );
+    }
+  } catch (err) {
+    if (err instanceof ProfitAbortError) {
+      // not worth sending, like an obligation without a profitable liquidation
+      logger.info('skipping liquidation below the minimum simulated profit', {
+        profit: err.profit.toFixed(2),
+        minProfit: err.minProfit,
+      });
+      await journal({ status: 'aborted', error: err.message });
+      return undefined;
+    }
+    // a failed simulation is handled like a transaction that failed on chain
+    if (!(err instanceof SimulationError)) {
+      // e.g. the transaction couldn't be built or the flash loan isn't repayable
+      await journal({
+        status: 'aborted',
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+    outcome = { status: 'failed', error: err.error, logs: err.logs };
+  }
+  await journal(outcome);
+  return { useFlashLoan, outcome };
+}
+
+// Liquidates the obligation while it is unhealthy and liquidations succeed or are worth retrying.
+// Resolves to whether the obligation is settled, i.e. healthy or liquidated in the paper wallet,
+// rather than left unhealthy or unevaluated.
+async function liquidateObligation(context: MarketContext, obligation: any) {
+  const {
+    connection,
+    payer,
+    paperWallet,
+    swapProvider,
+    market,
+    tokensOracle,
+    allReserves,
+    target,
+    oracleLimits,
+    flashLoanMode,
+    status,
+    underwater,
+    walletLocks,
+    liquidations,
+  } = context;
+  let retries = MAX_LIQUIDATION_RETRIES;
+  // collateral is no longer redeemed once the withdraw reserve ran out of liquidity
+  let redeem = true;
+  let settled = false;
+  try {
+    while (obligation) {
+      // Don't act on obligations priced with stale or uncertain oracle data
+      const priceIssues = obligation.info.borrows.length
+        ? getObligationPriceIssues(
+          obligation.info,
+          tokensOracle,
+          oracleLimits,
+          Date.now() / 1000,
+        )
+        : [];
+      if (priceIssues.length) {
+        logger.info('skipping obligation with price issues', {
+          priceIssues,
+        });
+        break;
+      }
+
+      const refreshedObligation = calculateRefreshedObligation(
+        obligation.info,
+        allReserves,
+        tokensOracle,
+      );
+
+      // Do nothing if obligation is healthy
+      if (!isObligationUnhealthy(refreshedObligation)) {
+        settled = true;
+        break;
+      }
+      underwater.add(obligation.pubkey.toString());
+      // on chain the obligation is unchanged by a paper liquidation
+      if (paperWallet?.isLiquidated(obligation)) {
+        settled = true;
+        break;
+      }
+
+      // the wallet balances of the repayable borrows are read when sizing the liquidation and
+      // spent by it, so no other liquidation may use them until its transaction is final
+      const walletKeys =
+        flashLoanMode === 'always'
+          ? []
+          : getRepayableBorrows(refreshedObligation.borrows).map(
+            (borrow) => borrow.mintAddress,
+          );
+      const currentObligation = obligation;
+      const currentRedeem = redeem;
+      const attempt = await walletLocks.run(
+        [currentObligation.pubkey.toString(), ...walletKeys],
+        () =>
+          liquidations.run(() =>
+            attemptLiquidation(
+              context,
+              currentObligation,
+              refreshedObligation,
+              currentRedeem,
+            ),
+          ),
+      );
+      if (!attempt) {
+        break;
+      }
+      const { useFlashLoan, outcome } = attempt;
+
+      if (outcome.status === 'failed') {
+        const failure = decodeFailure(outcome.error, outcome.logs);
+        liquidationsFailed.inc({
+          market: market.address,
+          error_class: failure.failureClass,
+        });
+        logger.error('liquidation failed', {
+          signature: outcome.signature,
+          failureClass: failure.failureClass,
+          retryAction: failure.retryAction,
+          failure: describeFailure(failure),
+        });
+        status.recordError(describeFailure(failure), {
+          market: market.address,
+          obligation: obligation.pubkey.toString(),
+        });
+        if (failure.retryAction === RetryAction.Skip || retries <= 0) {
+          break;
+        }
+        retries -= 1;
+        if (failure.retryAction === RetryAction.LiquidateWithoutRedeem) {
+          // a flash loan can only be repaid out of redeemed collateral
+          if (useFlashLoan || !redeem) {
+            break;
+          }
+          redeem = false;
+        } else {
+          await wait(SLOT_MS);
+        }
+      } else if (outcome.status === 'expired') {
+        liquidationsFailed.inc({
+          market: market.address,
+          error_class: 'expired',
+        });
+        // dropped before landing, re-evaluate the obligation and try again
+        logger.warn('liquidation expired', {
+          signature: outcome.signature,
+        });
+        if (retries <= 0) {
+          break;
+        }
+        retries -= 1;
+      } else {
+        liquidationsSucceeded.inc({ market: market.address });
+        logger.info('liquidated obligation', {
+          signature: outcome.signature,
+          slot: outcome.slot,
+        });
+      }
 
-            // get wallet balance for selected borrow token
-            const { balanceBase } = await getWalletTokenData(
+      // Swap the redeemed collateral back towards the configured wallet distribution
+      if (outcome.status === 'landed' && target.length > 0) {
+        // swaps move any token of the wallet
+        await walletLocks.run(
+          market.reserves.map((reserve) => reserve.liquidityToken.mint),
+          async () => {
+            const walletBalances = await getWalletBalances(
               connection,
-              market,
               payer,
-              selectedBorrow.mintAddress,
-              selectedBorrow.symbol
+              tokensOracle,
+              market,
             );
-            if (balanceBase === 0) {
-              console.log(
-                `insufficient ${
-                  selectedBorrow.symbol
-                } to liquidate obligation ${obligation.pubkey.toString()} in market: ${
-                  market.address
-                }`
-              );
-              break;
-            } else if (balanceBase < 0) {
-              console.log(`failed to get wallet balance for ${
-                selectedBorrow.symbol
-              } to liquidate obligation ${obligation.pubkey.toString()} in market: ${
-                market.address
-              }. 
-                Potentially network error or token account does not exist in wallet`);
-              break;
-            }
-
-            // Set super high liquidation amount which acts as u64::MAX as program will only liquidate max
-            // 50% val of all borrowed assets.
-            await liquidateAndRedeem(
+            await rebalanceWallet(
               connection,
               payer,
-              balanceBase,
-              selectedBorrow.symbol,
-              selectedDeposit.symbol,
-              market,
-              obligation
+              swapProvider,
+              tokensOracle,
+              walletBalances,
+              target,
             );
+          },
+        );
+      }
+
+      const postLiquidationObligation = await connection.getAccountInfo(
+        new PublicKey(obligation.pubkey),
+      );
+      obligation = parseObligation(
+        obligation.pubkey,
+        postLiquidationObligation!,
+      );
+    }
+  } catch (err) {
+    const failure = decodeFailure(
+      err instanceof Error ? err.message : err,
+      err?.logs,
+    );
+    logger.error('error liquidating obligation', {
+      failureClass: failure.failureClass,
+      failure: describeFailure(failure),
+      error: err,
+    });
+    status.recordError(describeFailure(failure), {
+      market: market.address,
+      obligation: obligation!.pubkey.toString(),
+    });
+  }
+  return settled;
+}
+
+export type LiquidatorOptions = {
+  connection: LiquidatorConnection;
+  markets: MarketConfig[];
+  payer: Account;
+  // set for a dry run, nothing is signed or sent and liquidations land in it instead
+  paperWallet?: PaperWallet;
+  swapProvider?: SwapProvider;
+  // passes over all markets, unbounded when undefined
+  epochs?: number;
+  // checked between obligations, the liquidator returns once it is true
+  isStopped?: () => boolean;
+  // defaults to the MARKET_CONCURRENCY, OBLIGATION_CONCURRENCY and LIQUIDATION_CONCURRENCY limits
+  concurrency?: ConcurrencyConfig;
+  // progress, errors and paused markets, shared with the control server
+  status?: LiquidatorStatus;
+};
 
-            const postLiquidationObligation = await connection.getAccountInfo(
-              new PublicKey(obligation.pubkey)
+export async function runLiquidator({
+  connection,
+  markets,
+  payer,
+  paperWallet,
+  swapProvider = getSwapProvider(),
+  epochs,
+  isStopped = () => false,
+  status = new LiquidatorStatus(markets),
+  concurrency = getConcurrencyConfig(),
+}: LiquidatorOptions) {
+  const dryRun = !!paperWallet;
+  const target = getWalletDistTarget();
+  const oracleLimits = getOracleLimits();
+  const flashLoanMode = getFlashLoanMode();
+  const priorityFeeConfig = getPriorityFeeConfig();
+  const minProfit = getMinProfitUSD();
+  const useSubscriptions = process.env.ACCOUNT_SUBSCRIPTIONS === 'true';
+  const useLookupTables = process.env.LOOKUP_TABLES === 'true';
+
+  logger.info('starting liquidator', {
+    app: process.env.APP,
+    rpc: connection.rpcEndpoint,
+    wallet: payer.publicKey.toBase58(),
+    autoRebalancing: target.length > 0,
+    rebalancingDistribution: process.env.TARGETS || '',
+    flashLoans: flashLoanMode,
+    accountSubscriptions: useSubscriptions,
+    lookupTables: useLookupTables,
+    dryRun,
+    paperTradesFile: paperWallet?.file,
+    markets: markets.length,
+    concurrency,
+  });
+
+  // keep obligations and reserves in memory instead of downloading them every epoch
+  const accountCaches: Record<string, MarketAccountCache> = {};
+  if (useSubscriptions) {
+    for (const market of markets) {
+      accountCaches[market.address] = new MarketAccountCache(connection, market);
+      await accountCaches[market.address].start();
+    }
+  }
+
+  // v0 transactions need the market's lookup table, markets without one fall back to legacy
+  const lookupTables = new LookupTableManager(connection, payer);
+  if (useLookupTables && !dryRun) {
+    for (const market of markets) {
+      try {
+        const table = await lookupTables.prepare(market);
+        logger.info('lookup table prepared', {
+          market: market.address,
+          lookupTable: table.key.toBase58(),
+          addresses: table.state.addresses.length,
+        });
+      } catch (err) {
+        logger.error(
+          'failed to prepare lookup table, using legacy transactions',
+          { market: market.address, error: err },
+        );
+      }
+    }
+  }
+
+  const walletLocks = new KeyedLock();
+  const liquidations = new Semaphore(concurrency.liquidations);
+
+  for (
+    let epoch = 0;
+    (epochs === undefined || epoch < epochs) && !isStopped();
+    epoch += 1
+  ) {
+    const epochStart = Date.now();
+    status.startEpoch(epoch);
+    await withLogContext({ epochId: newCorrelationId(), epoch }, () =>
+      forEachConcurrently(markets, concurrency.markets, async (market) => {
+        // paused by an operator through the control server
+        if (isStopped() || status.isPaused(market.address)) {
+          return;
+        }
+        // a failed read of one market leaves the others to run this epoch
+        try {
+          const tokensOracle = await getTokensOracleData(connection, market);
+          tokensOracle
+            .filter((oracle) => !oracle.source)
+            .forEach((oracle) =>
+              oracleReadFailures.inc({
+                market: market.address,
+                symbol: oracle.symbol,
+              }),
             );
-            obligation = parseObligation(
-              obligation.pubkey,
-              postLiquidationObligation!
+          if (isMetricsEnabled() || isControlServerEnabled()) {
+            await recordWalletBalances(
+              connection,
+              payer,
+              paperWallet,
+              tokensOracle,
+              market,
+              status,
             );
           }
-        } catch (err) {
-          console.error(
-            `error liquidating ${obligation!.pubkey.toString()}: `,
-            err
+          let allObligations;
+          let allReserves;
+          const accountCache = accountCaches[market.address];
+          if (accountCache) {
+            // only re-evaluate obligations whose account, reserves or prices changed, or that
+            // were left unhealthy
+            accountCache.updatePrices(tokensOracle);
+            allObligations = accountCache.takeDirtyObligations();
+            allReserves = accountCache.getReserves();
+          } else {
+            allObligations = await getObligations(connection, market.address);
+            allReserves = await getReserves(connection, market.address);
+          }
+
+          const context: MarketContext = {
+            connection,
+            payer,
+            paperWallet,
+            swapProvider,
+            market,
+            tokensOracle,
+            allReserves,
+            target,
+            oracleLimits,
+            flashLoanMode,
+            priorityFeeConfig,
+            minProfit,
+            lookupTables,
+            status,
+            underwater: new Set<string>(),
+            walletLocks,
+            liquidations,
+          };
+          await forEachConcurrently(
+            allObligations,
+            concurrency.obligations,
+            async (obligation: any) => {
+              if (isStopped() || status.isPaused(market.address)) {
+                accountCache?.markObligationDirty(obligation.pubkey.toString());
+                return;
+              }
+              obligationsScanned.inc({ market: market.address });
+              const settled = await withLogContext(
+                {
+                  obligationId: newCorrelationId(),
+                  market: market.address,
+                  obligation: obligation.pubkey.toString(),
+                },
+                () => liquidateObligation(context, obligation),
+              );
+              // evaluated again next epoch even if none of its accounts or prices change, e.g.
+              // once the wallet holds enough of the repay token
+              if (!settled) {
+                accountCache?.markObligationDirty(obligation.pubkey.toString());
+              }
+            },
+          );
+
+          underwaterObligations.set(
+            { market: market.address },
+            context.underwater.size,
           );
-          continue;
+        } catch (err) {
+          logger.error('error evaluating market', {
+            market: market.address,
+            error: err,
+          });
         }
-      }
+      }),
+    );
+    status.completeEpoch();
+    epochDuration.observe({}, (Date.now() - epochStart) / 1000);
+  }
 
-      // Throttle to avoid rate limiter
-      if (process.env.THROTTLE) {
-        await wait(Number(process.env.THROTTLE));
-      }
-    }
+  await Promise.all(
+    Object.values(accountCaches).map((accountCache) => accountCache.stop()),
+  );
+}
+
+async function main() {
+  const rpcEndpoints = getRpcEndpoints();
+  const markets = await getMarkets();
+  let rpcConnection: Connection;
+  if (rpcEndpoints.length > 1) {
+    const pool = new RpcPool(rpcEndpoints, 'confirmed');
+    await pool.start();
+    rpcConnection = pool.asConnection();
+  } else {
+    rpcConnection = createConnection(rpcEndpoints[0], 'confirmed');
+  }
+  // every request is timed for the metrics
+  const connection = instrumentConnection(rpcConnection);
+  const metricsPort = getMetricsPort();
+  if (metricsPort) {
+    startMetricsServer(metricsPort);
+    logger.info('serving metrics', { port: metricsPort });
+  }
+  // markets are paused and resumed without a restart, so the fetched configs are kept
+  const status = new LiquidatorStatus(markets);
+  const controlPort = getControlPort();
+  if (controlPort) {
+    startControlServer(controlPort, status);
+    logger.info('serving control plane', { port: controlPort });
   }
+  // nothing is signed or sent in a dry run, liquidations land in a virtual wallet instead
+  const dryRun = process.env.DRY_RUN === 'true';
+  // liquidator's keypair.
+  const secret = readSecret('keypair');
+
+  const bs = bs58.decode(secret);
+
+  const payer = dryRun && !secret ? new Account() : new Account(bs);
+  const paperWallet = dryRun
+    ? new PaperWallet(parsePaperWallet(process.env.PAPER_WALLET || ''))
+    : undefined;
+
+  // finish the obligation at hand, so that no transaction is left unconfirmed, then exit
+  let stopped = false;
+  const stop = () => {
+    logger.info('stopping after the current obligation');
+    stopped = true;
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  await runLiquidator({
+    connection,
+    markets,
+    payer,
+    paperWallet,
+    isStopped: () => stopped,
+    status,
+  });
+  process.exit(0);
 }
 
-runLiquidator();
+if (require.main === module) {
+  main().catch((err) => {
+    logger.error('liquidator failed', { error: err });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,40 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY } from '@solana/web3.js';
+import { getProgramIdForCurrentDeployment } from 'libs/utils';
+import { flashBorrowReserveLiquidityInstruction } from './flashBorrowReserveLiquidity';
+
+describe('flashBorrowReserveLiquidityInstruction', () => {
+  const [
+    sourceLiquidity,
+    destinationLiquidity,
+    reserve,
+    lendingMarket,
+    lendingMarketAuthority,
+  ] = [1, 2, 3, 4, 5].map((seed) => new PublicKey(seed));
+
+  const instruction = flashBorrowReserveLiquidityInstruction(
+    '1000000001',
+    sourceLiquidity,
+    destinationLiquidity,
+    reserve,
+    lendingMarket,
+    lendingMarketAuthority,
+  );
+
+  it('encodes the tag and the amount as a little endian u64', () => {
+    expect(instruction.data.toString('hex')).toBe('13' + '01ca9a3b00000000');
+  });
+
+  it('passes the accounts in the order of the program', () => {
+    expect(instruction.programId.toBase58()).toBe(getProgramIdForCurrentDeployment());
+    expect(instruction.keys).toEqual([
+      { pubkey: sourceLiquidity, isSigner: false, isWritable: true },
+      { pubkey: destinationLiquidity, isSigner: false, isWritable: true },
+      { pubkey: reserve, isSigner: false, isWritable: true },
+      { pubkey: lendingMarket, isSigner: false, isWritable: false },
+      { pubkey: lendingMarketAuthority, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import * as BufferLayout from 'buffer-layout';
+import * as Layout from 'libs/layout';
+import { getProgramIdForCurrentDeployment } from 'libs/utils';
+import { LendingInstruction } from './instruction';
+
+/// Flash borrow reserve liquidity. A matching FlashRepayReserveLiquidity instruction must
+/// follow later in the same transaction.
+/// Accounts expected by this instruction:
+///   0. `[writable]` Source liquidity token account.
+///                     Must match the reserve liquidity supply.
+///   1. `[writable]` Destination liquidity token account.
+///   2. `[writable]` Reserve account.
+///   3. `[]` Lending market account.
+///   4. `[]` Derived lending market authority.
+///   5. `[]` Instructions sysvar.
+///   6. `[]` Token program id.
+export const flashBorrowReserveLiquidityInstruction = (
+  liquidityAmount: number | BN | string,
+  sourceLiquidity: PublicKey,
+  destinationLiquidity: PublicKey,
+  reserve: PublicKey,
+  lendingMarket: PublicKey,
+  lendingMarketAuthority: PublicKey,
+): TransactionInstruction => {
+  const dataLayout = BufferLayout.struct([
+    BufferLayout.u8('instruction'),
+    Layout.uint64('liquidityAmount'),
+  ]);
+
+  const data = Buffer.alloc(dataLayout.span);
+  dataLayout.encode(
+    {
+      instruction: LendingInstruction.FlashBorrowReserveLiquidity,
+      liquidityAmount: new BN(liquidityAmount),
+    },
+    data,
+  );
+
+  const keys = [
+    { pubkey: sourceLiquidity, isSigner: false, isWritable: true },
+    { pubkey: destinationLiquidity, isSigner: false, isWritable: true },
+    { pubkey: reserve, isSigner: false, isWritable: true },
+    { pubkey: lendingMarket, isSigner: false, isWritable: false },
+    { pubkey: lendingMarketAuthority, isSigner: false, isWritable: false },
+    { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    keys,
+    programId: new PublicKey(getProgramIdForCurrentDeployment()),
+    data,
+  });
+};
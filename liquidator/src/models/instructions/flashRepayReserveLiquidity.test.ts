@@ -0,0 +1,47 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY } from '@solana/web3.js';
+import { getProgramIdForCurrentDeployment } from 'libs/utils';
+import { flashRepayReserveLiquidityInstruction } from './flashRepayReserveLiquidity';
+
+describe('flashRepayReserveLiquidityInstruction', () => {
+  const [
+    sourceLiquidity,
+    destinationLiquidity,
+    flashLoanFeeReceiver,
+    hostFeeReceiver,
+    reserve,
+    lendingMarket,
+    transferAuthority,
+  ] = [1, 2, 3, 4, 5, 6, 7].map((seed) => new PublicKey(seed));
+
+  const instruction = flashRepayReserveLiquidityInstruction(
+    '1000000001',
+    3,
+    sourceLiquidity,
+    destinationLiquidity,
+    flashLoanFeeReceiver,
+    hostFeeReceiver,
+    reserve,
+    lendingMarket,
+    transferAuthority,
+  );
+
+  it('encodes the tag, the amount as a little endian u64 and the borrow instruction index', () => {
+    expect(instruction.data.toString('hex')).toBe('14' + '01ca9a3b00000000' + '03');
+  });
+
+  it('passes the accounts in the order of the program, signed by the transfer authority', () => {
+    expect(instruction.programId.toBase58()).toBe(getProgramIdForCurrentDeployment());
+    expect(instruction.keys).toEqual([
+      { pubkey: sourceLiquidity, isSigner: false, isWritable: true },
+      { pubkey: destinationLiquidity, isSigner: false, isWritable: true },
+      { pubkey: flashLoanFeeReceiver, isSigner: false, isWritable: true },
+      { pubkey: hostFeeReceiver, isSigner: false, isWritable: true },
+      { pubkey: reserve, isSigner: false, isWritable: true },
+      { pubkey: lendingMarket, isSigner: false, isWritable: false },
+      { pubkey: transferAuthority, isSigner: true, isWritable: false },
+      { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import * as BufferLayout from 'buffer-layout';
+import * as Layout from 'libs/layout';
+import { getProgramIdForCurrentDeployment } from 'libs/utils';
+import { LendingInstruction } from './instruction';
+
+/// Flash repay reserve liquidity borrowed by the FlashBorrowReserveLiquidity instruction at
+/// $borrow_instruction_index of the same transaction, plus the flash loan fee.
+/// Accounts expected by this instruction:
+///   0. `[writable]` Source liquidity token account.
+///                     $authority can transfer $liquidity_amount.
+///   1. `[writable]` Destination liquidity token account.
+///                     Must match the reserve liquidity supply.
+///   2. `[writable]` Flash loan fee receiver account.
+///                     Must match the reserve liquidity fee receiver.
+///   3. `[writable]` Host fee receiver.
+///   4. `[writable]` Reserve account.
+///   5. `[]` Lending market account.
+///   6. `[signer]` User transfer authority ($authority).
+///   7. `[]` Instructions sysvar.
+///   8. `[]` Token program id.
+export const flashRepayReserveLiquidityInstruction = (
+  liquidityAmount: number | BN | string,
+  borrowInstructionIndex: number,
+  sourceLiquidity: PublicKey,
+  destinationLiquidity: PublicKey,
+  flashLoanFeeReceiver: PublicKey,
+  hostFeeReceiver: PublicKey,
+  reserve: PublicKey,
+  lendingMarket: PublicKey,
+  transferAuthority: PublicKey,
+): TransactionInstruction => {
+  const dataLayout = BufferLayout.struct([
+    BufferLayout.u8('instruction'),
+    Layout.uint64('liquidityAmount'),
+    BufferLayout.u8('borrowInstructionIndex'),
+  ]);
+
+  const data = Buffer.alloc(dataLayout.span);
+  dataLayout.encode(
+    {
+      instruction: LendingInstruction.FlashRepayReserveLiquidity,
+      liquidityAmount: new BN(liquidityAmount),
+      borrowInstructionIndex,
+    },
+    data,
+  );
+
+  const keys = [
+    { pubkey: sourceLiquidity, isSigner: false, isWritable: true },
+    { pubkey: destinationLiquidity, isSigner: false, isWritable: true },
+    { pubkey: flashLoanFeeReceiver, isSigner: false, isWritable: true },
+    { pubkey: hostFeeReceiver, isSigner: false, isWritable: true },
+    { pubkey: reserve, isSigner: false, isWritable: true },
+    { pubkey: lendingMarket, isSigner: false, isWritable: false },
+    { pubkey: transferAuthority, isSigner: true, isWritable: false },
+    { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    keys,
+    programId: new PublicKey(getProgramIdForCurrentDeployment()),
+    data,
+  });
+};
@@ -1,3 +1,6 @@
 export * from './refreshObligation';
 export * from './refreshReserve';
 export * from './LiquidateObligationAndRedeemReserveCollateral';
+export * from './flashBorrowReserveLiquidity';
+export * from './flashRepayReserveLiquidity';
+export * from './liquidateObligation';
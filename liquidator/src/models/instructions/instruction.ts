@@ -17,4 +17,7 @@ export enum LendingInstruction {
   WithdrawObligationCollateralAndRedeemReserveLiquidity = 15,
   UpdateReserveConfig = 16,
   LiquidateObligationAndRedeemReserveCollateral = 17,
+  RedeemFees = 18,
+  FlashBorrowReserveLiquidity = 19,
+  FlashRepayReserveLiquidity = 20,
 }
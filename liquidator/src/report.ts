@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import {
+  aggregatePnL,
+  formatPnLCSV,
+  formatPnLReport,
+  getJournalFile,
+  PnLGrouping,
+  readJournal,
+} from 'libs/journal';
+
+dotenv.config();
+
+const USAGE = `usage:
+  npm run report -- <day|market|asset> [report.csv]`;
+
+const GROUPINGS: PnLGrouping[] = ['day', 'market', 'asset'];
+
+// Aggregates the liquidation journal into PnL per day, market or collateral asset
+function report(args: string[]) {
+  const [grouping, csvFile] = args;
+  if (!GROUPINGS.includes(grouping as PnLGrouping)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const rows = aggregatePnL(
+    readJournal(getJournalFile()),
+    grouping as PnLGrouping,
+  );
+  console.log(formatPnLReport(rows, grouping as PnLGrouping));
+  if (csvFile) {
+    fs.writeFileSync(csvFile, formatPnLCSV(rows, grouping as PnLGrouping));
+    console.log(`report written to ${csvFile}`);
+  }
+}
+
+try {
+  report(process.argv.slice(2));
+} catch (err) {
+  console.error('report failed: ', err);
+  process.exit(1);
+}
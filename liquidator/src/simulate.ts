@@ -0,0 +1,165 @@
+import { Account, PublicKey } from '@solana/web3.js';
+import { parseObligation } from '@solendprotocol/solend-sdk';
+import bs58 from 'bs58';
+import dotenv from 'dotenv';
+import { simulateLiquidateAndRedeem } from 'libs/actions/liquidateAndRedeem';
+import { getLogger } from 'libs/logger';
+import { fetchMarketLookupTable } from 'libs/lookupTables';
+import { getTokensOracleData } from 'libs/oracle';
+import { getObligationPriceIssues, getOracleLimits } from 'libs/oracleGuard';
+import { getMaxRepayAmounts, planLiquidation } from 'libs/planLiquidation';
+import { decodeFailure, describeFailure } from 'libs/programErrors';
+import { createConnection } from 'libs/rateLimiter';
+import {
+  calculateRefreshedObligation,
+  isObligationUnhealthy,
+} from 'libs/refreshObligation';
+import { readSecret } from 'libs/secret';
+import {
+  formatSimulation,
+  getMinProfitUSD,
+  Preflight,
+} from 'libs/simulation';
+import { getReserves } from 'libs/utils';
+import { find } from 'underscore';
+import { getMarkets } from './config';
+
+dotenv.config();
+
+const logger = getLogger('simulate');
+
+// The given wallet, the wallet of the configured keypair otherwise
+function getWalletPublicKey(walletAddress: string | undefined) {
+  if (walletAddress) {
+    return new PublicKey(walletAddress);
+  }
+  const secret = readSecret('keypair');
+  if (!secret) {
+    throw new Error('no wallet given and no keypair configured');
+  }
+  return new Account(bs58.decode(secret)).publicKey;
+}
+
+// Evaluates a single obligation like the liquidator does and simulates the liquidation the
+// wallet would send, without ever signing or sending anything.
+// Usage: npm run simulate -- <obligation> [wallet]
+async function simulate(obligationAddress: string, walletAddress?: string) {
+  const rpcEndpoint = process.env.RPC_ENDPOINT;
+  if (!rpcEndpoint) {
+    throw new Error(
+      'Pls provide an private RPC endpoint in docker-compose.yaml',
+    );
+  }
+  const connection = createConnection(rpcEndpoint, 'confirmed');
+  const wallet = { publicKey: getWalletPublicKey(walletAddress) };
+
+  const obligationPubkey = new PublicKey(obligationAddress);
+  const obligationInfo = await connection.getAccountInfo(obligationPubkey);
+  if (!obligationInfo) {
+    throw new Error(`obligation ${obligationAddress} not found`);
+  }
+  const obligation = parseObligation(obligationPubkey, obligationInfo)!;
+
+  const markets = await getMarkets();
+  const market = find(
+    markets,
+    (config) => config.address === obligation.info.lendingMarket.toBase58(),
+  );
+  if (!market) {
+    throw new Error(
+      `market ${obligation.info.lendingMarket.toBase58()} of obligation ${obligationAddress} not found`,
+    );
+  }
+
+  const tokensOracle = await getTokensOracleData(connection, market);
+  // the liquidator doesn't act on obligations priced with stale or uncertain oracle data
+  const priceIssues = getObligationPriceIssues(
+    obligation.info,
+    tokensOracle,
+    getOracleLimits(),
+    Date.now() / 1000,
+  );
+  if (priceIssues.length) {
+    priceIssues.forEach((issue) => console.log(`price issue: ${issue}`));
+    console.log('obligation would be skipped');
+    return;
+  }
+
+  const allReserves = await getReserves(connection, market.address);
+  const refreshedObligation = calculateRefreshedObligation(
+    obligation.info,
+    allReserves,
+    tokensOracle,
+  );
+  logger.info('refreshed obligation', {
+    obligation: obligationAddress,
+    market: market.address,
+    wallet: wallet.publicKey.toBase58(),
+    borrowedValue: refreshedObligation.borrowedValue.toString(),
+    unhealthyBorrowValue: refreshedObligation.unhealthyBorrowValue.toString(),
+  });
+
+  if (!isObligationUnhealthy(refreshedObligation)) {
+    console.log('obligation is healthy, nothing to liquidate');
+    return;
+  }
+
+  const maxRepayAmounts = await getMaxRepayAmounts(
+    connection,
+    market,
+    wallet,
+    refreshedObligation.borrows,
+  );
+  const plan = planLiquidation(refreshedObligation, allReserves, {
+    maxRepayAmounts,
+  });
+  plan.rejected.forEach((pair) => console.log(`rejected ${pair.borrowSymbol}->${pair.depositSymbol}: ${pair.reason}`));
+  const selected = plan.candidates[0];
+  if (!selected) {
+    console.log('no liquidation possible');
+    return;
+  }
+  console.log(
+    `selected ${selected.borrow.symbol}->${selected.deposit.symbol}: ${selected.reason}`,
+  );
+
+  const preflight: Preflight = {
+    tokensOracle,
+    withdrawReserve: find(allReserves, (reserve) => reserve.pubkey.equals(selected.deposit.depositReserve)).info,
+    minProfit: getMinProfitUSD(),
+  };
+  const lookupTable = process.env.LOOKUP_TABLES === 'true'
+    ? await fetchMarketLookupTable(connection, market)
+    : undefined;
+  const simulation = await simulateLiquidateAndRedeem(
+    connection,
+    wallet,
+    selected.amount.repayAmount.toFixed(0),
+    selected.borrow.symbol,
+    selected.deposit.symbol,
+    market,
+    obligation,
+    preflight,
+    lookupTable,
+  );
+  console.log(formatSimulation(simulation));
+  console.log(
+    simulation.profit.isLessThan(preflight.minProfit)
+      ? `would abort: simulated profit is below the minimum of $${preflight.minProfit}`
+      : 'would send',
+  );
+}
+
+const [obligationAddress, walletAddress] = process.argv.slice(2);
+if (!obligationAddress) {
+  console.error('usage: npm run simulate -- <obligation> [wallet]');
+  process.exit(1);
+}
+simulate(obligationAddress, walletAddress).catch((err) => {
+  const failure = decodeFailure(
+    err instanceof Error ? err.message : err,
+    err?.logs,
+  );
+  console.error(`simulation failed: ${describeFailure(failure)}`, err);
+  process.exit(1);
+});